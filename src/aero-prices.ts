@@ -0,0 +1,271 @@
+/**
+ * AERO/USD pricing from a configurable chain of sources
+ * Sources are tried in the order given by AERO_PRICE_SOURCES (default: onchain,file,coingecko);
+ * the first one with a price point within AERO_PRICE_MAX_OFFSET_SECONDS of the action wins.
+ * Every quote records which source answered and how far its price point was from the action.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import axios from "axios";
+import { parse } from "csv-parse/sync";
+import { PriceRequest, PriceSource } from "./price-sources";
+import { SwapEvent } from "./price-lookup";
+import { BASE_BLOCK_TIME_SECONDS } from "./chain-constants";
+
+const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
+const COINGECKO_COIN_ID = "aerodrome-finance";
+
+export interface AeroPriceQuote {
+  price: number;
+  source: string; // Written to the AERO_price_source column
+  offsetSeconds: number | null; // Distance between the price point and the action (null for the fallback)
+  swap: SwapEvent | null; // Pool swap the price was derived from, if any
+}
+
+export interface AeroPriceSource {
+  name: string;
+  getPrice(request: PriceRequest): Promise<AeroPriceQuote | null>;
+}
+
+export type AeroPriceSourceType = "onchain" | "file" | "coingecko";
+
+export const AERO_PRICE_SOURCE_TYPES: AeroPriceSourceType[] = ["onchain", "file", "coingecko"];
+
+export interface AeroPriceChain {
+  sources: AeroPriceSource[];
+  maxOffsetSeconds: number;
+  strict: boolean; // Throw instead of falling back to 1 AERO = 1 USD
+}
+
+interface PricePoint {
+  time: number; // Unix seconds
+  price: number;
+}
+
+// Nearest price point on either side of the target time
+function findNearestPoint(points: PricePoint[], target: number): PricePoint | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid].time < target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const after = lo < points.length ? points[lo] : null;
+  const before = lo > 0 ? points[lo - 1] : null;
+  if (!before) return after;
+  if (!after) return before;
+  return target - before.time <= after.time - target ? before : after;
+}
+
+function toUnixSeconds(timestamp: string): number {
+  return Math.floor(new Date(timestamp).getTime() / 1000);
+}
+
+function createPointSource(name: string, points: PricePoint[]): AeroPriceSource {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+
+  return {
+    name,
+    async getPrice(request) {
+      const target = toUnixSeconds(request.timestamp);
+      const point = findNearestPoint(sorted, target);
+      return point
+        ? { price: point.price, source: name, offsetSeconds: Math.abs(point.time - target), swap: null }
+        : null;
+    },
+  };
+}
+
+// Block-accurate AERO price from an AERO pool's swaps (same nearest-swap rule as the base token)
+// When the pool quotes AERO in a non-stable token (e.g. WETH), usdSource converts it to USD
+export function createOnchainAeroSource(aeroSource: PriceSource, usdSource: PriceSource | null): AeroPriceSource {
+  const blockOffset = (request: PriceRequest, blockNumber: number) =>
+    Math.abs(request.block - blockNumber) * BASE_BLOCK_TIME_SECONDS;
+
+  return {
+    name: "onchain",
+    async getPrice(request) {
+      const aeroQuote = await aeroSource.getPrice(request);
+      if (!aeroQuote || !aeroQuote.swap) {
+        return null;
+      }
+
+      let price = aeroQuote.price;
+      let offsetSeconds = blockOffset(request, aeroQuote.swap.blockNumber);
+
+      if (usdSource) {
+        const usdQuote = await usdSource.getPrice(request);
+        if (!usdQuote || !usdQuote.swap) {
+          return null;
+        }
+        price *= usdQuote.price;
+        offsetSeconds = Math.max(offsetSeconds, blockOffset(request, usdQuote.swap.blockNumber));
+      }
+
+      return { price, source: "onchain", offsetSeconds, swap: aeroQuote.swap };
+    },
+  };
+}
+
+// Local price file: CSV with timestamp,price columns, or JSON with either
+// CoinGecko's { prices: [[timestamp_ms, price], ...] } shape or [{ timestamp, price }, ...]
+export function createFileAeroSource(filePath: string): AeroPriceSource {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`AERO price file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  let points: PricePoint[];
+
+  if (filePath.endsWith(".json")) {
+    const data = JSON.parse(content);
+    if (Array.isArray(data?.prices)) {
+      points = (data.prices as [number, number][]).map(([timestampMs, price]) => ({
+        time: Math.floor(timestampMs / 1000),
+        price,
+      }));
+    } else if (Array.isArray(data)) {
+      points = data.map((p: { timestamp: string | number; price: number | string }) => ({
+        time: typeof p.timestamp === "number" ? p.timestamp : parseFileTimestamp(p.timestamp),
+        price: Number(p.price),
+      }));
+    } else {
+      throw new Error(`Unrecognized AERO price JSON format: ${filePath}`);
+    }
+  } else {
+    const records: Array<{ timestamp: string; price: string }> = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+    });
+    points = records.map(r => ({ time: parseFileTimestamp(r.timestamp), price: parseFloat(r.price) }));
+  }
+
+  points = points.filter(p => !isNaN(p.time) && !isNaN(p.price) && p.price > 0);
+  if (points.length === 0) {
+    throw new Error(`AERO price file has no valid price points: ${filePath}`);
+  }
+
+  return createPointSource("file", points);
+}
+
+function parseFileTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  return toUnixSeconds(value);
+}
+
+function getCoinGeckoCacheDir(): string {
+  return path.join(__dirname, "..", "cache", "coingecko");
+}
+
+// Cached market_chart/range responses covering [fromUnix, toUnix], or all overlapping ones as a partial fallback
+function readCoinGeckoCache(fromUnix: number, toUnix: number): { points: PricePoint[]; complete: boolean } {
+  const cacheDir = getCoinGeckoCacheDir();
+  if (!fs.existsSync(cacheDir)) {
+    return { points: [], complete: false };
+  }
+
+  const cached = fs.readdirSync(cacheDir)
+    .map(file => ({ file, match: file.match(/^aerodrome-finance_(\d+)_(\d+)\.json$/) }))
+    .filter(c => c.match !== null)
+    .map(c => ({ file: path.join(cacheDir, c.file), from: parseInt(c.match![1]), to: parseInt(c.match![2]) }));
+
+  const readPoints = (file: string): PricePoint[] => {
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    return (data.prices as [number, number][]).map(([timestampMs, price]) => ({
+      time: Math.floor(timestampMs / 1000),
+      price,
+    }));
+  };
+
+  const covering = cached.find(c => c.from <= fromUnix && c.to >= toUnix);
+  if (covering) {
+    return { points: readPoints(covering.file), complete: true };
+  }
+
+  const overlapping = cached.filter(c => c.to >= fromUnix && c.from <= toUnix);
+  return { points: overlapping.flatMap(c => readPoints(c.file)), complete: false };
+}
+
+// CoinGecko market_chart/range, served from the on-disk response cache when possible
+export async function createCoinGeckoAeroSource(startTimestamp: string, endTimestamp: string): Promise<AeroPriceSource | null> {
+  // Add 1 day buffer on each side
+  const fromUnix = toUnixSeconds(startTimestamp) - 86400;
+  const toUnix = toUnixSeconds(endTimestamp) + 86400;
+
+  const cached = readCoinGeckoCache(fromUnix, toUnix);
+  if (cached.complete) {
+    console.log(`✓ Loaded ${cached.points.length} AERO price points from CoinGecko cache`);
+    return createPointSource("coingecko_cache", cached.points);
+  }
+
+  console.log("Fetching AERO prices from CoinGecko...");
+  try {
+    const response = await axios.get(
+      `${COINGECKO_API_URL}/coins/${COINGECKO_COIN_ID}/market_chart/range`,
+      {
+        params: {
+          vs_currency: "usd",
+          from: fromUnix,
+          to: toUnix,
+        },
+      }
+    );
+
+    // Response format: { prices: [[timestamp_ms, price], ...] }
+    const cacheDir = getCoinGeckoCacheDir();
+    if (!fs.existsSync(cacheDir)) {
+      fs.mkdirSync(cacheDir, { recursive: true });
+    }
+    fs.writeFileSync(
+      path.join(cacheDir, `${COINGECKO_COIN_ID}_${fromUnix}_${toUnix}.json`),
+      JSON.stringify(response.data),
+      "utf-8"
+    );
+
+    const points = (response.data.prices as [number, number][]).map(([timestampMs, price]) => ({
+      time: Math.floor(timestampMs / 1000),
+      price,
+    }));
+    console.log(`✓ Fetched ${points.length} AERO price points`);
+    return createPointSource("coingecko", points);
+  } catch (error: any) {
+    console.error("Failed to fetch AERO prices from CoinGecko:", error.message);
+
+    if (cached.points.length > 0) {
+      console.log(`⚠️  Using ${cached.points.length} cached CoinGecko points that only partly cover the range`);
+      return createPointSource("coingecko_cache", cached.points);
+    }
+    return null;
+  }
+}
+
+// Ask each source in order; fall back to 1 AERO = 1 USD (or throw in strict mode)
+export async function getAeroPrice(chain: AeroPriceChain, request: PriceRequest): Promise<AeroPriceQuote> {
+  for (const source of chain.sources) {
+    const quote = await source.getPrice(request);
+    if (quote && (quote.offsetSeconds === null || quote.offsetSeconds <= chain.maxOffsetSeconds)) {
+      return quote;
+    }
+  }
+
+  if (chain.strict) {
+    throw new Error(
+      `No AERO price within ${chain.maxOffsetSeconds}s of ${request.timestamp} ` +
+      `(sources: ${chain.sources.map(s => s.name).join(", ") || "none"})`
+    );
+  }
+
+  return { price: 1.0, source: "fallback", offsetSeconds: null, swap: null };
+}
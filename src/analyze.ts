@@ -3,6 +3,33 @@ import * as fs from "fs";
 import * as path from "path";
 import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
+import {
+  resolvePool,
+  getBaseToken,
+  getQuoteToken,
+  basePriceColumn,
+  tokenColumnSuffix,
+  tickAtBasePrice,
+} from "./pools";
+import { positionRangesPath } from "./range-tracking";
+import { OpenPositionMark, openPositionsPath } from "./mark-to-market";
+import { equityCurvePath } from "./equity-curve";
+import { RiskMetrics, ValueSample, calculateRiskMetrics, getRiskFreeRate } from "./risk-metrics";
+import { PeriodBucket, getPeriodBucket, getPeriodTimezone, getPeriods } from "./period-buckets";
+import { RangePosition, calculateRangeBuckets, rangeBucketsPath } from "./range-buckets";
+import { RebalanceLeg, detectRebalances, getRebalanceConfig, rebalanceEpisodesPath } from "./rebalance-chains";
+import { getStakingStats, isDeposit, isWithdrawal } from "./position-actions";
+import { CashFlow, XirrStatus, solveXirr } from "./xirr";
+import {
+  Income,
+  ValueEvent,
+  ValuePoint,
+  getValuePath,
+  integrateValue,
+  valueAt,
+  modifiedDietzReturn,
+  timeWeightedReturn,
+} from "./returns";
 
 // Types
 interface AnalysisRow {
@@ -16,7 +43,8 @@ interface AnalysisRow {
   swap_hash: string;
   token_id: string;
   action: string;
-  cbBTC_price: number;
+  pool: string;
+  base_price: number; // Base token price in quote units (read from e.g. the "cbBTC_price" column)
   tick_lower: string;
   tick_upper: string;
   amount0_dec: number;
@@ -24,30 +52,38 @@ interface AnalysisRow {
   fee0_dec: number;
   fee1_dec: number;
   reward: number;
+  token0_price_usd: number;
+  token1_price_usd: number;
   amount0_usd: number;
   amount1_usd: number;
   AERO_usd: number;
+  gas_cost_usd: number; // Charged on the first row of each transaction (0 in files without gas columns)
+  liquidity: string; // Liquidity added or removed (blank in older files)
 }
 
 interface PositionStats {
   token_id: string;
   events_count: number;
   
-  // Mint data
+  // Mint data (deposits include increaseLiquidity top-ups)
   mint_count: number;
+  increase_count: number;
   first_mint_timestamp: Date | null;
-  total_deposit_usdc: number;
-  total_deposit_cbbtc: number;
-  total_deposit_usd: number; // USD value at deposit time (using each mint's own price)
-  btc_price_at_first_mint: number;
-  
-  // Burn data
+  total_deposit_token0: number;
+  total_deposit_token1: number;
+  total_deposit_usd: number; // USD value at deposit time (using each deposit's own price)
+  base_price_at_first_mint: number;
+  tick_lower: number | null; // Range of the first mint, null when the file has no ticks
+  tick_upper: number | null;
+  
+  // Burn data (withdrawals include decreaseLiquidity partial exits)
   burn_count: number;
+  decrease_count: number;
   first_burn_timestamp: Date | null;
-  total_withdraw_usdc: number;
-  total_withdraw_cbbtc: number;
-  total_withdraw_usd: number; // USD value at withdrawal time (using each burn's own price)
-  btc_price_at_first_burn: number;
+  total_withdraw_token0: number;
+  total_withdraw_token1: number;
+  total_withdraw_usd: number; // USD value at withdrawal time (using each withdrawal's own price)
+  base_price_at_first_burn: number;
   
   // Rewards and fees
   total_aero_rewards: number;
@@ -55,18 +91,55 @@ interface PositionStats {
   
   // Calculated metrics
   active_time_seconds: number;
+  staked_time_seconds: number; // Staked in the gauge (gauge_deposit to gauge_withdraw)
+  stake_count: number;
   impermanent_loss_usd: number;
   profit_usd: number;
   xirr: number | null; // Annualized return rate (XIRR)
+  xirr_status: XirrStatus; // Why xirr is missing or ambiguous (see xirr.ts)
+  
+  // Gas (mint, burn, collect and reward transactions of the position)
+  total_gas_usd: number;
+  net_profit_usd: number | null; // profit_usd (unrealized_profit_usd when marked) minus gas; null while unclosed and unmarked
+  xirr_net: number | null; // XIRR with gas as outflows
+  xirr_net_status: XirrStatus;
+  
+  // Capital deployed: value path between the liquidity actions (to the mark when marked), see returns.ts
+  value_path: ValuePoint[];
+  capital_usd_seconds: number; // Time integral of the position value
+  
+  // Mark-to-market (unclosed positions with MARK_TO_MARKET=true), null otherwise
+  mark_price: number | null;
+  mark_value_usd: number | null;
+  unrealized_impermanent_loss_usd: number | null;
+  unrealized_profit_usd: number | null;
+  
+  // Decomposition of profit_usd (unrealized_profit_usd when marked); null while unclosed and unmarked
+  pnl: PnlAttribution | null;
+}
+
+interface PnlAttribution {
+  fees_usd: number;
+  rewards_usd: number; // AERO, excluding gauge_getReward (wallet-level)
+  impermanent_loss_usd: number; // LP value at exit - HODL value at exit
+  market_drift_usd: number; // HODL value at exit - deposit value: price movement of the deposited tokens
+}
+
+// One exit of a position's liquidity: a withdrawal, or the mark of an unclosed position
+interface PositionExit {
+  value_usd: number;
+  token0_price_usd: number;
+  token1_price_usd: number;
+  liquidity: string; // Liquidity removed, blank when unknown
 }
 
 interface WalletStats {
   positions_count: number;
   events_count: number;
-  total_deposit_usdc: number;
-  total_deposit_cbbtc: number;
-  total_withdraw_usdc: number;
-  total_withdraw_cbbtc: number;
+  total_deposit_token0: number;
+  total_deposit_token1: number;
+  total_withdraw_token0: number;
+  total_withdraw_token1: number;
   avg_active_time_seconds: number;
   total_fees_usd: number;
   total_collected_aero_rewards: number; // AERO tokens
@@ -74,127 +147,172 @@ interface WalletStats {
   total_impermanent_loss_usd: number;
   total_profit_usd: number;
   xirr: number | null; // Portfolio XIRR
-  avg_capital_deployed_usd: number; // Average capital deployed over the period
-  apr: number | null; // Annualized percentage return
+  xirr_status: XirrStatus;
+  total_gas_usd: number;
+  net_profit_usd: number;
+  xirr_net: number | null; // Portfolio XIRR with gas as outflows
+  xirr_net_status: XirrStatus;
+  avg_capital_deployed_usd: number; // Time-weighted average of the open position value over the period
+  apr: number | null; // Annualized percentage return on avg_capital_deployed_usd
+  apr_net: number | null; // APR of net_profit_usd
+  modified_dietz_return: number | null; // Period return (%) with flows weighted by time invested
+  twr: number | null; // Time-weighted period return (%)
   days_active: number; // Number of days in the period
+  risk: RiskMetrics | null; // From the equity curve, null without one
+  worst_position_profit_usd: number | null; // Lowest profit_usd of the complete positions
 }
 
-interface DailyStats {
-  date: string; // YYYY-MM-DD
+interface PeriodStats {
+  period: string; // Bucket start in PERIOD_TIMEZONE (see period-buckets.ts)
+  period_start: string; // Bucket start in UTC (ISO)
   events_count: number;
   positions_opened: number; // mints
   positions_closed: number; // burns
-  deposit_usdc: number;
-  deposit_cbbtc: number;
+  deposit_token0: number;
+  deposit_token1: number;
   deposit_value_usd: number;
-  withdraw_usdc: number;
-  withdraw_cbbtc: number;
+  withdraw_token0: number;
+  withdraw_token1: number;
   withdraw_value_usd: number;
   fees_collected_usd: number;
   aero_rewards_collected: number;
-  daily_income_usd: number; // fees + rewards collected that day (not full profit - doesn't account for IL/price changes)
-  capital_deployed_usd: number; // Net capital deployed at end of day (cumulative deposits - withdrawals)
+  income_usd: number; // fees + rewards collected in the period (not full profit - doesn't account for IL/price changes)
+  capital_deployed_usd: number; // Net capital deployed at the end of the period (cumulative deposits - withdrawals)
+  opening_capital_usd: number; // Value of the open positions at the start of the period
+  closing_capital_usd: number; // Value of the open positions at its end
+  period_return: number | null; // Modified Dietz return of the period (%), null without capital
 }
 
-interface CashFlow {
-  date: Date;
-  amount: number; // negative for outflows (deposits), positive for inflows (withdrawals, fees, rewards)
+// Per-position row of position_ranges_{label}.csv (written by index.ts)
+interface PositionRangeRow {
+  token_id: string;
+  seconds_tracked: number;
+  seconds_in_range: number;
+  seconds_out_of_range: number;
+  pct_time_in_range: number | "";
+  range_exits: number;
+  seconds_out_of_range_at_end?: number | ""; // Missing in older files
+  range_position_start: number | "";
+  range_position_end: number | "";
+  range_position_min: number | "";
+  range_position_max: number | "";
 }
 
-// Calculate XIRR (Extended Internal Rate of Return) using Newton-Raphson method
-// Returns annualized rate as a percentage (e.g., 15.5 for 15.5% APR)
-function calculateXIRR(cashFlows: CashFlow[], maxIterations = 100, tolerance = 1e-6): number | null {
-  if (cashFlows.length < 2) {
-    return null; // Need at least 2 cash flows
-  }
+// USD value of the fees collected in a collect event
+function feeValueUsd(row: AnalysisRow): number {
+  return row.fee0_dec * row.token0_price_usd + row.fee1_dec * row.token1_price_usd;
+}
 
-  // Sort by date
-  const sorted = [...cashFlows].sort((a, b) => a.date.getTime() - b.date.getTime());
-  
-  // Check if we have both inflows and outflows
-  const hasOutflow = sorted.some(cf => cf.amount < 0);
-  const hasInflow = sorted.some(cf => cf.amount > 0);
-  
-  if (!hasOutflow || !hasInflow) {
-    return null; // Need both deposits and returns
-  }
+function toExit(row: AnalysisRow): PositionExit {
+  return {
+    value_usd: row.amount0_usd + row.amount1_usd,
+    token0_price_usd: row.token0_price_usd,
+    token1_price_usd: row.token1_price_usd,
+    liquidity: row.liquidity,
+  };
+}
 
-  const firstDate = sorted[0].date.getTime();
-  
-  // Calculate days from first cash flow for each transaction
-  const daysFromStart = sorted.map(cf => (cf.date.getTime() - firstDate) / (1000 * 60 * 60 * 24));
-  
-  // Initial guess: 10% annualized
-  let rate = 0.1;
-  
-  // Newton-Raphson iteration
-  for (let i = 0; i < maxIterations; i++) {
-    let npv = 0;
-    let dnpv = 0; // Derivative of NPV
-    
-    for (let j = 0; j < sorted.length; j++) {
-      const years = daysFromStart[j] / 365;
-      const discountFactor = Math.pow(1 + rate, -years);
-      
-      npv += sorted[j].amount * discountFactor;
-      dnpv += -years * sorted[j].amount * discountFactor / (1 + rate);
-    }
-    
-    // Check convergence
-    if (Math.abs(npv) < tolerance) {
-      return rate * 100; // Convert to percentage
-    }
-    
-    // Newton-Raphson update
-    if (dnpv === 0) {
-      return null; // Can't converge
-    }
-    
-    rate = rate - npv / dnpv;
-    
-    // Prevent rate from going too negative or too high
-    if (rate < -0.99) rate = -0.99;
-    if (rate > 10) rate = 10; // Cap at 1000% to prevent overflow
+// HODL value of the deposited tokens at exit: each exit takes its share of the deposits (by
+// liquidity removed when every exit has it, else by value) valued at that exit's own prices
+function hodlValueAtExits(exits: PositionExit[], deposit0: number, deposit1: number): number {
+  const liquidities = exits.map(e => Math.abs(Number(e.liquidity || 0)));
+  let weights = liquidities.every(l => l > 0) ? liquidities : exits.map(e => Math.max(0, e.value_usd));
+  if (weights.every(w => w === 0)) {
+    weights = exits.map(() => 1);
   }
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
   
-  // If we didn't converge, return null
-  return null;
+  return exits.reduce((sum, exit, i) =>
+    sum + (weights[i] / totalWeight) * (deposit0 * exit.token0_price_usd + deposit1 * exit.token1_price_usd), 0);
+}
+
+// Split the P&L of a position into fees, rewards, IL and market drift; IL and drift share
+// the HODL value at exit, so the four parts always add up to the profit
+function attributePnl(
+  exits: PositionExit[],
+  deposit0: number,
+  deposit1: number,
+  depositUsd: number,
+  feesUsd: number,
+  rewardsUsd: number
+): PnlAttribution {
+  const lpValueAtExit = exits.reduce((sum, e) => sum + e.value_usd, 0);
+  const hodlValueAtExit = hodlValueAtExits(exits, deposit0, deposit1);
+  return {
+    fees_usd: feesUsd,
+    rewards_usd: rewardsUsd,
+    impermanent_loss_usd: lpValueAtExit - hodlValueAtExit,
+    market_drift_usd: hodlValueAtExit - depositUsd,
+  };
+}
+
+function pnlTotal(pnl: PnlAttribution): number {
+  return pnl.fees_usd + pnl.rewards_usd + pnl.impermanent_loss_usd + pnl.market_drift_usd;
+}
+
+// Gas paid per row, as negative cash flows
+function gasCashFlows(rows: AnalysisRow[]): CashFlow[] {
+  return rows
+    .filter(r => r.gas_cost_usd > 0)
+    .map(r => ({ date: new Date(r.timestamp), amount: -r.gas_cost_usd }));
 }
 
-function calculatePositionStats(rows: AnalysisRow[]): PositionStats {
+// Deposits and withdrawals of a position as value events, with the mark as its final exit
+function valueEvents(deposits: AnalysisRow[], withdrawals: AnalysisRow[], mark?: OpenPositionMark): ValueEvent[] {
+  const toEvent = (row: AnalysisRow, kind: ValueEvent["kind"]): ValueEvent => ({
+    time: new Date(row.timestamp).getTime(),
+    kind,
+    value_usd: row.amount0_usd + row.amount1_usd,
+    liquidity: row.liquidity,
+    final: row.action === "burn",
+  });
+  const events = [
+    ...deposits.map(r => toEvent(r, "deposit")),
+    ...withdrawals.map(r => toEvent(r, "withdrawal")),
+  ];
+  if (mark) {
+    events.push({
+      time: new Date(mark.mark_timestamp).getTime(),
+      kind: "withdrawal",
+      value_usd: mark.value_usd,
+      liquidity: mark.liquidity,
+      final: true,
+    });
+  }
+  return events;
+}
+
+// mark values an unclosed position at the end of the observation window (see mark-to-market.ts)
+function calculatePositionStats(rows: AnalysisRow[], mark?: OpenPositionMark): PositionStats {
   const token_id = rows[0].token_id || "unknown";
   
-  // Separate events by type
-  const mints = rows.filter(r => r.action === "mint");
-  const burns = rows.filter(r => r.action === "burn");
+  // Separate events by type: mints open and burns close the position, deposits and
+  // withdrawals also include the top-ups and partial exits in between
+  const byTime = (a: AnalysisRow, b: AnalysisRow) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+  const mints = rows.filter(r => r.action === "mint").sort(byTime);
+  const burns = rows.filter(r => r.action === "burn").sort(byTime);
+  const deposits = rows.filter(r => isDeposit(r.action)).sort(byTime);
+  const withdrawals = rows.filter(r => isWithdrawal(r.action)).sort(byTime);
   const collects = rows.filter(r => r.action === "collect");
-  const getRewards = rows.filter(r => r.action === "gauge_getReward");
-  
-  // Sort by timestamp
-  mints.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  burns.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
   
-  // Calculate mint totals (use already-calculated USD values which have correct per-mint prices)
-  const total_deposit_usdc = mints.reduce((sum, m) => sum + m.amount0_dec, 0);
-  const total_deposit_cbbtc = mints.reduce((sum, m) => sum + m.amount1_dec, 0);
-  const total_deposit_usd = mints.reduce((sum, m) => sum + m.amount0_usd + m.amount1_usd, 0);
+  // Calculate deposit totals (use already-calculated USD values which have correct per-deposit prices)
+  const total_deposit_token0 = deposits.reduce((sum, m) => sum + m.amount0_dec, 0);
+  const total_deposit_token1 = deposits.reduce((sum, m) => sum + m.amount1_dec, 0);
+  const total_deposit_usd = deposits.reduce((sum, m) => sum + m.amount0_usd + m.amount1_usd, 0);
   const first_mint = mints[0];
-  const btc_price_at_first_mint = first_mint ? first_mint.cbBTC_price : 0;
-  
-  // Calculate burn totals (use already-calculated USD values which have correct per-burn prices)
-  const total_withdraw_usdc = burns.reduce((sum, b) => sum + b.amount0_dec, 0);
-  const total_withdraw_cbbtc = burns.reduce((sum, b) => sum + b.amount1_dec, 0);
-  const total_withdraw_usd = burns.reduce((sum, b) => sum + b.amount0_usd + b.amount1_usd, 0);
+  const base_price_at_first_mint = first_mint ? first_mint.base_price : 0;
+  const tick_lower = first_mint && first_mint.tick_lower !== "" ? parseInt(first_mint.tick_lower) : NaN;
+  const tick_upper = first_mint && first_mint.tick_upper !== "" ? parseInt(first_mint.tick_upper) : NaN;
+  
+  // Calculate withdrawal totals (use already-calculated USD values which have correct per-withdrawal prices)
+  const total_withdraw_token0 = withdrawals.reduce((sum, b) => sum + b.amount0_dec, 0);
+  const total_withdraw_token1 = withdrawals.reduce((sum, b) => sum + b.amount1_dec, 0);
+  const total_withdraw_usd = withdrawals.reduce((sum, b) => sum + b.amount0_usd + b.amount1_usd, 0);
   const first_burn = burns[0];
-  const btc_price_at_first_burn = first_burn ? first_burn.cbBTC_price : 0;
+  const base_price_at_first_burn = first_burn ? first_burn.base_price : 0;
   
   // Calculate fees from collect events
-  const total_fees_usdc = collects.reduce((sum, c) => sum + c.fee0_dec, 0);
-  const total_fees_cbbtc = collects.reduce((sum, c) => sum + c.fee1_dec, 0);
-  const total_fees_usd = collects.reduce((sum, c) => {
-    const fee_usd = c.fee0_dec + (c.fee1_dec * c.cbBTC_price);
-    return sum + fee_usd;
-  }, 0);
+  const total_fees_usd = collects.reduce((sum, c) => sum + feeValueUsd(c), 0);
   
   // Calculate total rewards (exclude gauge_getReward - those are wallet-level only)
   const total_aero_rewards = rows
@@ -215,58 +333,49 @@ function calculatePositionStats(rows: AnalysisRow[]): PositionStats {
   }
   
   // Calculate profit and impermanent loss
+  // profit = fees + rewards + impermanent loss + market drift (see attributePnl)
   let profit_usd = 0;
   let impermanent_loss_usd = 0;
+  let pnl: PnlAttribution | null = null;
   
   if (first_mint && first_burn) {
-    const hodlValueAtDepositUSD = total_deposit_usd; // Deposit valued at time of deposit
-    const lpValueAtExitUSD = total_withdraw_usd;      // Withdraw valued at time of withdrawal
-    
-    // Calculate HODL value at exit (for IL calculation)
-    // For multiple burns at different prices, use weighted average
-    let totalWithdrawValue = 0;
-    let totalCbbtcWithdrawn = 0;
-    
-    for (const burn of burns) {
-      totalWithdrawValue += burn.amount0_usd + burn.amount1_usd;
-      totalCbbtcWithdrawn += burn.amount1_dec;
-    }
-    
-    // Calculate weighted average exit price
-    const avgExitPrice = totalCbbtcWithdrawn > 0 
-      ? (totalWithdrawValue - burns.reduce((sum, b) => sum + b.amount0_dec, 0)) / totalCbbtcWithdrawn
-      : btc_price_at_first_burn;
-    
-    // HODL value at exit = what you deposited, valued at average exit price
-    const hodlValueAtExitUSD = total_deposit_usdc + (total_deposit_cbbtc * avgExitPrice);
-    
-    
-    // Impermanent loss = LP value (without fees) - HODL value (both at exit time)
-    if (burns.length > 0) {
-      impermanent_loss_usd = lpValueAtExitUSD - hodlValueAtExitUSD;
-      
-    }
-    
-    // Profit = (LP value at exit - HODL value at deposit) + rewards
-    // This includes: IL + HODL_gain + fees + rewards
-    const collectedRewardsAmountUSD = total_aero_rewards_usd;
-    profit_usd = (lpValueAtExitUSD - hodlValueAtDepositUSD) + collectedRewardsAmountUSD;
+    pnl = attributePnl(withdrawals.map(toExit), total_deposit_token0, total_deposit_token1, total_deposit_usd, total_fees_usd, total_aero_rewards_usd);
+    impermanent_loss_usd = pnl.impermanent_loss_usd;
+    profit_usd = pnlTotal(pnl);
+  }
+  
+  // Unrealized P&L and IL of an unclosed position, with the rest of it withdrawn at the mark
+  const isMarked = mark !== undefined && first_mint !== undefined && burns.length === 0;
+  let unrealized_impermanent_loss_usd: number | null = null;
+  let unrealized_profit_usd: number | null = null;
+  
+  if (isMarked) {
+    const markExit: PositionExit = {
+      value_usd: mark.value_usd,
+      token0_price_usd: mark.token0_price_usd,
+      token1_price_usd: mark.token1_price_usd,
+      liquidity: mark.liquidity,
+    };
+    pnl = attributePnl([...withdrawals.map(toExit), markExit], total_deposit_token0, total_deposit_token1, total_deposit_usd, total_fees_usd, total_aero_rewards_usd);
+    unrealized_impermanent_loss_usd = pnl.impermanent_loss_usd;
+    unrealized_profit_usd = pnlTotal(pnl);
+    active_time_seconds = (new Date(mark.mark_timestamp).getTime() - new Date(first_mint.timestamp).getTime()) / 1000;
   }
   
   // Calculate XIRR (Extended Internal Rate of Return)
   // Build cash flows: deposits are negative (outflows), returns are positive (inflows)
   const cashFlows: CashFlow[] = [];
   
-  // Add mints as negative cash flows (capital deployed)
-  mints.forEach(mint => {
+  // Add deposits as negative cash flows (capital deployed)
+  deposits.forEach(mint => {
     cashFlows.push({
       date: new Date(mint.timestamp),
       amount: -(mint.amount0_usd + mint.amount1_usd),
     });
   });
   
-  // Add burns as positive cash flows (capital returned)
-  burns.forEach(burn => {
+  // Add withdrawals as positive cash flows (capital returned)
+  withdrawals.forEach(burn => {
     cashFlows.push({
       date: new Date(burn.timestamp),
       amount: burn.amount0_usd + burn.amount1_usd,
@@ -275,7 +384,7 @@ function calculatePositionStats(rows: AnalysisRow[]): PositionStats {
   
   // Add fee collections as positive cash flows (income)
   collects.forEach(collect => {
-    const feeValue = collect.fee0_dec + (collect.fee1_dec * collect.cbBTC_price);
+    const feeValue = feeValueUsd(collect);
     if (feeValue > 0) {
       cashFlows.push({
         date: new Date(collect.timestamp),
@@ -294,98 +403,229 @@ function calculatePositionStats(rows: AnalysisRow[]): PositionStats {
       });
     });
   
+  // A marked position is treated as withdrawn at its mark value
+  if (isMarked) {
+    cashFlows.push({
+      date: new Date(mark.mark_timestamp),
+      amount: mark.value_usd,
+    });
+  }
+  
   // Calculate XIRR
-  const xirr = calculateXIRR(cashFlows);
+  const xirr = solveXirr(cashFlows);
+  
+  // Net of gas: every transaction fee is an extra outflow when it was paid
+  const total_gas_usd = rows.reduce((sum, r) => sum + r.gas_cost_usd, 0);
+  const grossProfit = isMarked ? unrealized_profit_usd : (first_mint && first_burn ? profit_usd : null);
+  const net_profit_usd = grossProfit !== null ? grossProfit - total_gas_usd : null;
+  const xirrNet = solveXirr([...cashFlows, ...gasCashFlows(rows)]);
+  
+  // Staked time runs to the mark for marked positions, else to the burn or the last action
+  const staking = getStakingStats(rows, isMarked ? new Date(mark.mark_timestamp) : undefined);
+  
+  // Value path for capital deployed, with a marked position withdrawn at the mark
+  const value_path = getValuePath(valueEvents(deposits, withdrawals, isMarked ? mark : undefined));
   
   return {
     token_id,
     events_count: rows.length,
     mint_count: mints.length,
+    increase_count: deposits.length - mints.length,
     first_mint_timestamp: first_mint ? new Date(first_mint.timestamp) : null,
-    total_deposit_usdc,
-    total_deposit_cbbtc,
+    total_deposit_token0,
+    total_deposit_token1,
     total_deposit_usd,
-    btc_price_at_first_mint,
+    base_price_at_first_mint,
+    tick_lower: isNaN(tick_lower) ? null : tick_lower,
+    tick_upper: isNaN(tick_upper) ? null : tick_upper,
     burn_count: burns.length,
+    decrease_count: withdrawals.length - burns.length,
     first_burn_timestamp: first_burn ? new Date(first_burn.timestamp) : null,
-    total_withdraw_usdc,
-    total_withdraw_cbbtc,
+    total_withdraw_token0,
+    total_withdraw_token1,
     total_withdraw_usd,
-    btc_price_at_first_burn,
+    base_price_at_first_burn,
     total_fees_usd,
     total_aero_rewards,
     active_time_seconds,
+    staked_time_seconds: staking.staked_seconds,
+    stake_count: staking.stake_count,
     impermanent_loss_usd,
     profit_usd,
-    xirr,
+    xirr: xirr.rate,
+    xirr_status: xirr.status,
+    total_gas_usd,
+    net_profit_usd,
+    xirr_net: xirrNet.rate,
+    xirr_net_status: xirrNet.status,
+    value_path,
+    capital_usd_seconds: integrateValue(value_path),
+    mark_price: isMarked ? mark.mark_price : null,
+    mark_value_usd: isMarked ? mark.value_usd : null,
+    unrealized_impermanent_loss_usd,
+    unrealized_profit_usd,
+    pnl,
   };
 }
 
-function calculateDailyStats(rows: AnalysisRow[]): DailyStats[] {
-  // Group events by date (YYYY-MM-DD)
-  const dailyMap = new Map<string, AnalysisRow[]>();
+// Period statistics over consecutive buckets from the first to the last row, including buckets
+// without events; paths are the value paths of the positions (see returns.ts)
+function calculatePeriodStats(
+  rows: AnalysisRow[],
+  paths: ValuePoint[][],
+  bucket: PeriodBucket,
+  timeZone: string
+): PeriodStats[] {
+  if (rows.length === 0) {
+    return [];
+  }
   
-  rows.forEach(row => {
-    const date = row.timestamp.split('T')[0]; // Extract YYYY-MM-DD
-    if (!dailyMap.has(date)) {
-      dailyMap.set(date, []);
+  // Rows and paths in time order, walked once with a moving index as the periods advance
+  const timedRows = rows
+    .map(row => ({ row, time: new Date(row.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time);
+  const sortedPaths = paths.filter(path => path.length > 0).sort((a, b) => a[0].time - b[0].time);
+  const periods = getPeriods(timedRows[0].time, timedRows[timedRows.length - 1].time, bucket, timeZone);
+  const periodStats: PeriodStats[] = [];
+  let cumulativeCapital = 0;
+  let rowIndex = 0;
+  let pathIndex = 0;
+  let openPaths: ValuePoint[][] = [];
+  
+  for (const period of periods) {
+    const periodRows: AnalysisRow[] = [];
+    const income: Income[] = [];
+    for (; rowIndex < timedRows.length && timedRows[rowIndex].time < period.end; rowIndex++) {
+      const { row, time } = timedRows[rowIndex];
+      periodRows.push(row);
+      const amount = (row.action === "collect" ? feeValueUsd(row) : 0) + row.AERO_usd;
+      if (amount > 0) {
+        income.push({ time, amount });
+      }
     }
-    dailyMap.get(date)!.push(row);
-  });
-  
-  // Calculate stats for each day
-  const dailyStats: DailyStats[] = [];
-  
-  for (const [date, dayRows] of dailyMap) {
-    const mints = dayRows.filter(r => r.action === "mint");
-    const burns = dayRows.filter(r => r.action === "burn");
-    const collects = dayRows.filter(r => r.action === "collect");
     
-    const deposit_usdc = mints.reduce((sum, m) => sum + m.amount0_dec, 0);
-    const deposit_cbbtc = mints.reduce((sum, m) => sum + m.amount1_dec, 0);
-    const deposit_value_usd = mints.reduce((sum, m) => sum + m.amount0_usd + m.amount1_usd, 0);
+    // Only paths with value in or at the edges of the period affect its capital and return
+    for (; pathIndex < sortedPaths.length && sortedPaths[pathIndex][0].time < period.end; pathIndex++) {
+      openPaths.push(sortedPaths[pathIndex]);
+    }
+    openPaths = openPaths.filter(path => path[path.length - 1].time >= period.start || path[path.length - 1].after !== 0);
+    
+    const mints = periodRows.filter(r => r.action === "mint");
+    const burns = periodRows.filter(r => r.action === "burn");
+    const deposits = periodRows.filter(r => isDeposit(r.action));
+    const withdrawals = periodRows.filter(r => isWithdrawal(r.action));
+    const collects = periodRows.filter(r => r.action === "collect");
+    
+    const deposit_token0 = deposits.reduce((sum, m) => sum + m.amount0_dec, 0);
+    const deposit_token1 = deposits.reduce((sum, m) => sum + m.amount1_dec, 0);
+    const deposit_value_usd = deposits.reduce((sum, m) => sum + m.amount0_usd + m.amount1_usd, 0);
     
-    const withdraw_usdc = burns.reduce((sum, b) => sum + b.amount0_dec, 0);
-    const withdraw_cbbtc = burns.reduce((sum, b) => sum + b.amount1_dec, 0);
-    const withdraw_value_usd = burns.reduce((sum, b) => sum + b.amount0_usd + b.amount1_usd, 0);
+    const withdraw_token0 = withdrawals.reduce((sum, b) => sum + b.amount0_dec, 0);
+    const withdraw_token1 = withdrawals.reduce((sum, b) => sum + b.amount1_dec, 0);
+    const withdraw_value_usd = withdrawals.reduce((sum, b) => sum + b.amount0_usd + b.amount1_usd, 0);
     
-    const fees_collected_usd = collects.reduce((sum, c) => {
-      return sum + c.fee0_dec + (c.fee1_dec * c.cbBTC_price);
-    }, 0);
+    const fees_collected_usd = collects.reduce((sum, c) => sum + feeValueUsd(c), 0);
     
-    const aero_rewards_collected = dayRows.reduce((sum, r) => sum + r.AERO_usd, 0);
+    const aero_rewards_collected = periodRows.reduce((sum, r) => sum + r.AERO_usd, 0);
     
-    const daily_income_usd = fees_collected_usd + aero_rewards_collected;
+    // Net capital deployed so far (cumulative deposits - withdrawals)
+    cumulativeCapital += deposit_value_usd - withdraw_value_usd;
     
-    dailyStats.push({
-      date,
-      events_count: dayRows.length,
+    // Periods are [start, end): the return runs to the last millisecond before the next one
+    periodStats.push({
+      period: period.label,
+      period_start: new Date(period.start).toISOString(),
+      events_count: periodRows.length,
       positions_opened: mints.length,
       positions_closed: burns.length,
-      deposit_usdc,
-      deposit_cbbtc,
+      deposit_token0,
+      deposit_token1,
       deposit_value_usd,
-      withdraw_usdc,
-      withdraw_cbbtc,
+      withdraw_token0,
+      withdraw_token1,
       withdraw_value_usd,
       fees_collected_usd,
       aero_rewards_collected,
-      daily_income_usd,
-      capital_deployed_usd: 0,
+      income_usd: fees_collected_usd + aero_rewards_collected,
+      capital_deployed_usd: cumulativeCapital,
+      opening_capital_usd: openPaths.reduce((sum, path) => sum + valueAt(path, period.start, "before"), 0),
+      closing_capital_usd: openPaths.reduce((sum, path) => sum + valueAt(path, period.end, "before"), 0),
+      period_return: modifiedDietzReturn(openPaths, income, period.start, period.end - 1),
     });
   }
   
-  // Sort by date
-  dailyStats.sort((a, b) => a.date.localeCompare(b.date));
+  return periodStats;
+}
+
+// Range tracking from position_ranges next to the transaction details, if index.ts wrote one
+function readPositionRanges(csvPath: string): Map<string, PositionRangeRow> {
+  const rangesPath = positionRangesPath(csvPath);
+  const ranges = new Map<string, PositionRangeRow>();
+  if (!fs.existsSync(rangesPath)) {
+    return ranges;
+  }
   
-  // Calculate cumulative capital deployed for each day
-  let cumulativeCapital = 0;
-  for (const day of dailyStats) {
-    cumulativeCapital += day.deposit_value_usd - day.withdraw_value_usd;
-    day.capital_deployed_usd = cumulativeCapital;
+  const records: PositionRangeRow[] = parse(fs.readFileSync(rangesPath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+    cast: (value, context) => {
+      // Blank range positions mean no pool tick was known for the position
+      if (context.header || context.column === "token_id" || value === "") {
+        return value;
+      }
+      return parseFloat(value);
+    },
+  });
+  
+  records.forEach(record => ranges.set(String(record.token_id), record));
+  return ranges;
+}
+
+// Wallet equity over time from the equity_curve file, null when there is none
+function readEquityCurve(csvPath: string): ValueSample[] | null {
+  const curvePath = equityCurvePath(csvPath);
+  if (!fs.existsSync(curvePath)) {
+    return null;
+  }
+  
+  const records: Array<{ timestamp: string; equity_usd: string }> = parse(fs.readFileSync(curvePath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+  });
+  
+  return records
+    .map(record => ({ time: new Date(record.timestamp).getTime(), value_usd: parseFloat(record.equity_usd) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Open position marks from open_positions next to the transaction details, if index.ts wrote one
+function readOpenPositionMarks(csvPath: string): Map<string, OpenPositionMark> | null {
+  const marksPath = openPositionsPath(csvPath);
+  if (!fs.existsSync(marksPath)) {
+    return null;
   }
   
-  return dailyStats;
+  const textColumns = ["token_id", "mark_timestamp", "mark_source", "liquidity"];
+  const records: OpenPositionMark[] = parse(fs.readFileSync(marksPath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+    cast: (value, context) => {
+      if (context.header || textColumns.includes(String(context.column)) || value === "") {
+        return value;
+      }
+      return parseFloat(value);
+    },
+  });
+  
+  return new Map(records.map(record => [String(record.token_id), record]));
+}
+
+// XIRR for the console, with the solver status when the rate is missing or ambiguous
+function formatXirr(rate: number | null, status: XirrStatus): string {
+  if (rate === null) {
+    return `N/A (${status})`;
+  }
+  return `${rate.toFixed(2)}%` + (status === "converged" ? "" : ` (${status})`);
 }
 
 function formatDuration(seconds: number): string {
@@ -509,11 +749,13 @@ async function main() {
     cast: (value, context) => {
       const numericColumns = [
         "block", "block_index", "swap_block", "swap_index",
-        "cbBTC_price", "amount0_dec", "amount1_dec", "fee0_dec", "fee1_dec",
-        "reward", "amount0_usd", "amount1_usd", "AERO_usd"
+        "amount0_dec", "amount1_dec", "fee0_dec", "fee1_dec",
+        "reward", "amount0_usd", "amount1_usd", "AERO_usd", "gas_cost_usd"
       ];
+      const column = String(context.column);
       
-      if (numericColumns.includes(String(context.column))) {
+      // Price columns are named after the pool tokens (e.g. cbBTC_price, token0_price_usd)
+      if (numericColumns.includes(column) || column.endsWith("_price") || column.endsWith("_price_usd")) {
         return parseFloat(value) || 0;
       }
       return value;
@@ -522,6 +764,53 @@ async function main() {
   
   console.log(`Loaded ${rows.length} events`);
   
+  // PERIOD_BUCKET and PERIOD_TIMEZONE select the buckets of the period statistics
+  const periodBucket = getPeriodBucket();
+  const periodTimezone = getPeriodTimezone();
+  
+  // REBALANCE_MAX_GAP_SECONDS and REBALANCE_AMOUNT_TOLERANCE link burns to the mints they fund
+  const rebalanceConfig = getRebalanceConfig();
+  
+  // MARK_TO_MARKET=true values unclosed positions at the end of the window instead of excluding them
+  const markToMarket = process.env.MARK_TO_MARKET === "true";
+  const openMarks = markToMarket ? readOpenPositionMarks(csvPath) : null;
+  if (markToMarket && !openMarks) {
+    console.log(`⚠ MARK_TO_MARKET=true but ${openPositionsPath(csvPath)} was not found, unclosed positions stay excluded (rerun the main script)`);
+  } else if (openMarks) {
+    console.log(`Loaded marks for ${openMarks.size} open positions`);
+  }
+  
+  const positionRanges = readPositionRanges(csvPath);
+  const equityCurve = readEquityCurve(csvPath);
+  if (positionRanges.size > 0) {
+    console.log(`Loaded range tracking for ${positionRanges.size} positions`);
+  }
+  
+  // Older transaction details have no pool column and always come from the default pool
+  const pool = resolvePool(rows[0]?.pool);
+  const baseToken = getBaseToken(pool);
+  const quoteToken = getQuoteToken(pool);
+  const priceColumn = basePriceColumn(pool);
+  const token0Column = tokenColumnSuffix(pool.token0);
+  const token1Column = tokenColumnSuffix(pool.token1);
+  const baseColumn = tokenColumnSuffix(baseToken);
+  const tokenDecimals = (token: typeof pool.token0) => pool.stable && token === quoteToken ? 2 : 8;
+  console.log(`Pool: ${pool.name}`);
+  
+  rows.forEach(row => {
+    const rawRow = row as unknown as Record<string, number>;
+    row.base_price = rawRow[priceColumn] || 0;
+    row.gas_cost_usd = rawRow.gas_cost_usd || 0;
+    row.liquidity = row.liquidity ?? "";
+    
+    // Token USD prices were added to transaction details together with the pool
+    // registry; older files only cover stablecoin-quoted pools
+    if (rawRow.token0_price_usd === undefined) {
+      row.token0_price_usd = pool.quoteToken === 0 ? 1 : row.base_price;
+      row.token1_price_usd = pool.quoteToken === 1 ? 1 : row.base_price;
+    }
+  });
+  
   // Group by token_id (position), excluding empty token_ids
   const positionMap = new Map<string, AnalysisRow[]>();
   
@@ -550,29 +839,51 @@ async function main() {
   const positionStats: PositionStats[] = [];
   
   for (const [tokenId, positionRows] of positionMap) {
-    const stats = calculatePositionStats(positionRows);
+    const stats = calculatePositionStats(positionRows, openMarks?.get(tokenId));
     positionStats.push(stats);
     
     console.log(`Position ${tokenId}:`);
     console.log(`  Events: ${stats.events_count}`);
-    console.log(`  Mints: ${stats.mint_count}, Burns: ${stats.burn_count}`);
-    console.log(`  Deposited: $${stats.total_deposit_usdc.toFixed(2)} USDC, ${stats.total_deposit_cbbtc.toFixed(8)} cbBTC`);
-    console.log(`  Withdrew: $${stats.total_withdraw_usdc.toFixed(2)} USDC, ${stats.total_withdraw_cbbtc.toFixed(8)} cbBTC`);
+    console.log(`  Mints: ${stats.mint_count}, Burns: ${stats.burn_count}` +
+      (stats.increase_count + stats.decrease_count > 0 ? `, Top-ups: ${stats.increase_count}, Partial Exits: ${stats.decrease_count}` : ""));
+    console.log(`  Deposited: ${stats.total_deposit_token0.toFixed(tokenDecimals(pool.token0))} ${pool.token0.symbol}, ${stats.total_deposit_token1.toFixed(tokenDecimals(pool.token1))} ${pool.token1.symbol}`);
+    console.log(`  Withdrew: ${stats.total_withdraw_token0.toFixed(tokenDecimals(pool.token0))} ${pool.token0.symbol}, ${stats.total_withdraw_token1.toFixed(tokenDecimals(pool.token1))} ${pool.token1.symbol}`);
     console.log(`  AERO Rewards: ${stats.total_aero_rewards.toFixed(4)} ($${stats.total_aero_rewards.toFixed(2)})`);
     console.log(`  Active Time: ${formatDuration(stats.active_time_seconds)}`);
+    if (stats.staked_time_seconds > 0) {
+      console.log(`  Staked: ${formatDuration(stats.staked_time_seconds)} (${stats.stake_count} gauge deposits)`);
+    }
+    const range = positionRanges.get(tokenId);
+    if (range && range.pct_time_in_range !== "") {
+      console.log(`  In Range: ${range.pct_time_in_range.toFixed(1)}% (${formatDuration(range.seconds_in_range)}), ${range.range_exits} exits`);
+    }
     console.log(`  Profit: $${stats.profit_usd.toFixed(2)}`);
+    if (stats.pnl) {
+      console.log(`  P&L: fees $${stats.pnl.fees_usd.toFixed(2)}, rewards $${stats.pnl.rewards_usd.toFixed(2)}, IL $${stats.pnl.impermanent_loss_usd.toFixed(2)}, market drift $${stats.pnl.market_drift_usd.toFixed(2)}`);
+    }
+    console.log(`  XIRR: ${formatXirr(stats.xirr, stats.xirr_status)}`);
+    if (stats.total_gas_usd > 0) {
+      console.log(`  Gas: $${stats.total_gas_usd.toFixed(2)}` + (stats.net_profit_usd !== null ? `, Net Profit: $${stats.net_profit_usd.toFixed(2)}` : ""));
+    }
     if (stats.impermanent_loss_usd !== 0) {
       console.log(`  Impermanent Loss: $${stats.impermanent_loss_usd.toFixed(2)}`);
     }
+    if (stats.mark_value_usd !== null) {
+      console.log(`  Mark Value: $${stats.mark_value_usd.toFixed(2)} (${baseToken.symbol} at ${stats.mark_price!.toFixed(2)} ${quoteToken.symbol})`);
+      console.log(`  Unrealized Profit: $${stats.unrealized_profit_usd!.toFixed(2)}, Unrealized IL: $${stats.unrealized_impermanent_loss_usd!.toFixed(2)}`);
+    }
     console.log();
   }
   
   // Report position breakdown
   const completePositionsCount = positionStats.filter(p => p.mint_count > 0 && p.burn_count > 0).length;
-  const preExistingCount = positionStats.filter(p => p.mint_count === 0 && p.burn_count > 0).length;
+  const preExistingCount = positionStats.filter(p => p.mint_count === 0 && p.burn_count + p.increase_count + p.decrease_count > 0).length;
   const unclosedPositionsCount = positionStats.filter(p => p.mint_count > 0 && p.burn_count === 0).length;
   const excludedCount = preExistingCount + unclosedPositionsCount;
   
+  // Unclosed positions valued at the mark are reported separately, never mixed into realized totals
+  const unrealizedPositions = positionStats.filter(p => p.mark_value_usd !== null);
+  
   console.log(`\nPosition Breakdown: ${completePositionsCount} complete, ${excludedCount} excluded`);
   if (preExistingCount > 0) {
     console.log(`    ${preExistingCount} pre-existing position(s) (opened before observation) excluded`);
@@ -580,10 +891,13 @@ async function main() {
   if (unclosedPositionsCount > 0) {
     console.log(`    ${unclosedPositionsCount} unclosed position(s) (still open) excluded`);
   }
+  if (unrealizedPositions.length > 0) {
+    console.log(`    ${unrealizedPositions.length} of them marked to market (reported in the unrealized section)`);
+  }
   
-  // Calculate daily stats
+  // Calculate period stats
   console.log("\n" + "=".repeat(60));
-  console.log("CALCULATING DAILY STATISTICS");
+  console.log("CALCULATING PERIOD STATISTICS");
   console.log("=".repeat(60) + "\n");
   
   // Filter rows to only include events from COMPLETE positions (both opened AND closed during observation)
@@ -594,48 +908,48 @@ async function main() {
     !r.token_id || r.token_id === "" || completePositionTokenIds.has(r.token_id)
   );
   
-  const dailyStats = calculateDailyStats(rowsFromCompletePositions);
-  console.log(`Calculated stats for ${dailyStats.length} days (using ${rowsFromCompletePositions.length} events from complete positions only)\n`);
+  const completeValuePaths = positionStats.filter(p => completePositionTokenIds.has(p.token_id)).map(p => p.value_path);
+  const periodStats = calculatePeriodStats(rowsFromCompletePositions, completeValuePaths, periodBucket, periodTimezone);
+  console.log(`Calculated stats for ${periodStats.length} ${periodBucket} periods in ${periodTimezone} (using ${rowsFromCompletePositions.length} events from complete positions only)\n`);
   
   // Calculate wallet-level aggregated stats
   const allAeroRewardsUsd = rowsFromCompletePositions.reduce((sum, r) => sum + r.AERO_usd, 0);
   
-  // Calculate average capital deployed from COMPLETE positions only
-  const completePositionsOnly = positionStats.filter(p => p.mint_count > 0 && p.burn_count > 0);
-  const totalDepositsCompletePositions = completePositionsOnly.reduce((sum, p) => sum + p.total_deposit_usd, 0);
-  const totalWithdrawalsCompletePositions = completePositionsOnly.reduce((sum, p) => sum + p.total_withdraw_usd, 0);
-  
-  // Avg capital = average of what was deployed across the period
-  // Simple approximation: (total deposits + total withdrawals) / 2
-  const avg_capital_deployed_usd = completePositionsOnly.length > 0
-    ? (totalDepositsCompletePositions + totalWithdrawalsCompletePositions) / 2
-    : 0;
-  
   // Calculate actual operating time from earliest to latest transaction (complete positions only)
-  let days_active = dailyStats.length;
+  const completeTimestamps = rowsFromCompletePositions.map(r => new Date(r.timestamp).getTime());
+  const periodStart = completeTimestamps.length > 0 ? completeTimestamps.reduce((min, t) => Math.min(min, t)) : 0;
+  const periodEnd = completeTimestamps.length > 0 ? completeTimestamps.reduce((max, t) => Math.max(max, t)) : 0;
+  // Fallback: number of UTC days with events
+  const eventDays = new Set(rowsFromCompletePositions.map(r => r.timestamp.split("T")[0])).size;
+  let days_active = eventDays;
   if (rowsFromCompletePositions.length >= 2) {
-    const timestamps = rowsFromCompletePositions.map(r => new Date(r.timestamp).getTime());
-    const earliestTimestamp = Math.min(...timestamps);
-    const latestTimestamp = Math.max(...timestamps);
-    const actualMilliseconds = latestTimestamp - earliestTimestamp;
+    const actualMilliseconds = periodEnd - periodStart;
     days_active = actualMilliseconds / (1000 * 60 * 60 * 24); // Convert to days
     
     // Ensure we have a minimum time period to avoid division by zero or unrealistic APRs
     if (days_active < 0.001) {
-      days_active = dailyStats.length;
+      days_active = eventDays;
     }
   }
   
+  // Avg capital = time integral of the open position value (complete positions only) over the
+  // period, so capital recycled through many short positions is only counted while deployed
+  const completePositionsOnly = positionStats.filter(p => p.mint_count > 0 && p.burn_count > 0);
+  const capitalUsdSeconds = completePositionsOnly.reduce((sum, p) => sum + p.capital_usd_seconds, 0);
+  const avg_capital_deployed_usd = days_active > 0
+    ? capitalUsdSeconds / (days_active * 24 * 60 * 60)
+    : 0;
+  
   // Filter to only complete positions (both opened AND closed) for wallet-level calculations
   const completePositions = positionStats.filter(p => p.mint_count > 0 && p.burn_count > 0);
   
   const walletStats: WalletStats = {
     positions_count: completePositions.length,
     events_count: rowsFromCompletePositions.length,
-    total_deposit_usdc: completePositions.reduce((sum, p) => sum + p.total_deposit_usdc, 0),
-    total_deposit_cbbtc: completePositions.reduce((sum, p) => sum + p.total_deposit_cbbtc, 0),
-    total_withdraw_usdc: completePositions.reduce((sum, p) => sum + p.total_withdraw_usdc, 0),
-    total_withdraw_cbbtc: completePositions.reduce((sum, p) => sum + p.total_withdraw_cbbtc, 0),
+    total_deposit_token0: completePositions.reduce((sum, p) => sum + p.total_deposit_token0, 0),
+    total_deposit_token1: completePositions.reduce((sum, p) => sum + p.total_deposit_token1, 0),
+    total_withdraw_token0: completePositions.reduce((sum, p) => sum + p.total_withdraw_token0, 0),
+    total_withdraw_token1: completePositions.reduce((sum, p) => sum + p.total_withdraw_token1, 0),
     avg_active_time_seconds: completePositions.length > 0
       ? completePositions.reduce((sum, p) => sum + p.active_time_seconds, 0) / completePositions.length
       : 0,
@@ -645,9 +959,21 @@ async function main() {
     total_impermanent_loss_usd: completePositions.reduce((sum, p) => sum + p.impermanent_loss_usd, 0),
     total_profit_usd: completePositions.reduce((sum, p) => sum + p.profit_usd, 0),
     xirr: null,
+    xirr_status: "too_few_cash_flows",
+    total_gas_usd: rowsFromCompletePositions.reduce((sum, r) => sum + r.gas_cost_usd, 0),
+    net_profit_usd: 0,
+    xirr_net: null,
+    xirr_net_status: "too_few_cash_flows",
     avg_capital_deployed_usd,
     apr: null,
+    apr_net: null,
+    modified_dietz_return: null,
+    twr: null,
     days_active,
+    risk: null,
+    worst_position_profit_usd: completePositions.length > 0
+      ? Math.min(...completePositions.map(p => p.profit_usd))
+      : null,
   };
   
   // Add gauge_getReward rewards to token count (wallet-level, not position-specific)
@@ -661,19 +987,20 @@ async function main() {
     .filter(r => r.action === "gauge_getReward")
     .reduce((sum, e) => sum + e.AERO_usd, 0);
   walletStats.total_profit_usd += gaugeRewardsUsd;
+  walletStats.net_profit_usd = walletStats.total_profit_usd - walletStats.total_gas_usd;
   
   const walletCashFlows: CashFlow[] = [];
   
-  // Add all mints as negative cash flows
-  rowsFromCompletePositions.filter(r => r.action === "mint").forEach(mint => {
+  // Add all deposits as negative cash flows
+  rowsFromCompletePositions.filter(r => isDeposit(r.action)).forEach(mint => {
     walletCashFlows.push({
       date: new Date(mint.timestamp),
       amount: -(mint.amount0_usd + mint.amount1_usd),
     });
   });
   
-  // Add all burns as positive cash flows
-  rowsFromCompletePositions.filter(r => r.action === "burn").forEach(burn => {
+  // Add all withdrawals as positive cash flows
+  rowsFromCompletePositions.filter(r => isWithdrawal(r.action)).forEach(burn => {
     walletCashFlows.push({
       date: new Date(burn.timestamp),
       amount: burn.amount0_usd + burn.amount1_usd,
@@ -682,7 +1009,7 @@ async function main() {
   
   // Add all fee collections as positive cash flows
   rowsFromCompletePositions.filter(r => r.action === "collect").forEach(collect => {
-    const feeValue = collect.fee0_dec + (collect.fee1_dec * collect.cbBTC_price);
+    const feeValue = feeValueUsd(collect);
     if (feeValue > 0) {
       walletCashFlows.push({
         date: new Date(collect.timestamp),
@@ -700,22 +1027,40 @@ async function main() {
   });
   
   // Calculate wallet XIRR
-  walletStats.xirr = calculateXIRR(walletCashFlows);
-  
-  // Calculate APR (simple annualized return)
-  // Use average deposit per position to account for capital recycling
-  const avgDepositPerPosition = walletStats.positions_count > 0 
-    ? totalDepositsCompletePositions / walletStats.positions_count
-    : 0;
-  
-  if (avgDepositPerPosition > 0 && walletStats.days_active > 0) {
-    const periodReturn = walletStats.total_profit_usd / avgDepositPerPosition;
+  const walletXirr = solveXirr(walletCashFlows);
+  const walletXirrNet = solveXirr([...walletCashFlows, ...gasCashFlows(rowsFromCompletePositions)]);
+  walletStats.xirr = walletXirr.rate;
+  walletStats.xirr_status = walletXirr.status;
+  walletStats.xirr_net = walletXirrNet.rate;
+  walletStats.xirr_net_status = walletXirrNet.status;
+  
+  // Calculate APR (simple annualized return on the time-weighted capital deployed)
+  if (walletStats.avg_capital_deployed_usd > 0 && walletStats.days_active > 0) {
+    const periodReturn = walletStats.total_profit_usd / walletStats.avg_capital_deployed_usd;
     walletStats.apr = (periodReturn * 365 / walletStats.days_active) * 100; // Convert to percentage
+    walletStats.apr_net = (walletStats.net_profit_usd / walletStats.avg_capital_deployed_usd * 365 / walletStats.days_active) * 100;
+  }
+  
+  // Modified Dietz and time-weighted returns: deposits and withdrawals are external flows,
+  // fees and AERO rewards are income
+  const walletIncome: Income[] = rowsFromCompletePositions
+    .map(r => ({
+      time: new Date(r.timestamp).getTime(),
+      amount: (r.action === "collect" ? feeValueUsd(r) : 0) + r.AERO_usd,
+    }))
+    .filter(i => i.amount > 0);
+  const walletPaths = completePositions.map(p => p.value_path);
+  walletStats.modified_dietz_return = modifiedDietzReturn(walletPaths, walletIncome, periodStart, periodEnd);
+  walletStats.twr = timeWeightedReturn(walletPaths, walletIncome);
+  
+  // Drawdown, volatility, Sharpe and Sortino of the wallet's equity curve
+  if (equityCurve) {
+    walletStats.risk = calculateRiskMetrics(equityCurve, getRiskFreeRate());
   }
   
   // Calculate net position changes
-  const usdcChange = walletStats.total_withdraw_usdc - walletStats.total_deposit_usdc;
-  const cbbtcChange = walletStats.total_withdraw_cbbtc - walletStats.total_deposit_cbbtc;
+  const token0Change = walletStats.total_withdraw_token0 - walletStats.total_deposit_token0;
+  const token1Change = walletStats.total_withdraw_token1 - walletStats.total_deposit_token1;
   
   // Ensure output directory exists
   const outputDir = path.dirname(summaryOutputPath);
@@ -723,34 +1068,146 @@ async function main() {
     fs.mkdirSync(outputDir, { recursive: true });
   }
   
+  // Range tracking columns; blank when position_ranges is missing or had no pool tick for the position
+  const rangeColumns = (range: PositionRangeRow | undefined) => ({
+    seconds_in_range: range ? range.seconds_in_range : "",
+    seconds_out_of_range: range ? range.seconds_out_of_range : "",
+    pct_time_in_range: range ? range.pct_time_in_range : "",
+    range_exits: range ? range.range_exits : "",
+    range_position_start: range ? range.range_position_start : "",
+    range_position_end: range ? range.range_position_end : "",
+    range_position_min: range ? range.range_position_min : "",
+    range_position_max: range ? range.range_position_max : "",
+  });
+  
+  // Wallet totals over complete positions, with time in range weighted by tracked time
+  const completeRanges = completePositions
+    .map(p => positionRanges.get(p.token_id))
+    .filter((r): r is PositionRangeRow => r !== undefined);
+  const walletSecondsTracked = completeRanges.reduce((sum, r) => sum + r.seconds_tracked, 0);
+  const walletSecondsInRange = completeRanges.reduce((sum, r) => sum + r.seconds_in_range, 0);
+  const walletRangeColumns = {
+    ...rangeColumns(undefined),
+    ...(completeRanges.length > 0 ? {
+      seconds_in_range: walletSecondsInRange,
+      seconds_out_of_range: completeRanges.reduce((sum, r) => sum + r.seconds_out_of_range, 0),
+      pct_time_in_range: walletSecondsTracked > 0 ? (walletSecondsInRange / walletSecondsTracked) * 100 : "",
+      range_exits: completeRanges.reduce((sum, r) => sum + r.range_exits, 0),
+    } : {}),
+  };
+  
+  // Mark-to-market columns, only filled for unclosed positions valued at the mark
+  const markColumns = (pos: PositionStats | null) => ({
+    [`${baseColumn}_price_at_mark`]: pos?.mark_price ?? "",
+    mark_value_usd: pos?.mark_value_usd ?? "",
+    unrealized_impermanent_loss_usd: pos?.unrealized_impermanent_loss_usd ?? "",
+    unrealized_profit_usd: pos?.unrealized_profit_usd ?? "",
+  });
+  
+  // Unrealized wallet section: marked positions plus the gauge rewards attributed to them
+  const unrealizedTokenIds = new Set(unrealizedPositions.map(p => p.token_id));
+  const unrealizedGaugeRewardsUsd = rows
+    .filter(r => r.action === "gauge_getReward" && unrealizedTokenIds.has(r.token_id))
+    .reduce((sum, r) => sum + r.AERO_usd, 0);
+  const unrealizedMarkValue = unrealizedPositions.reduce((sum, p) => sum + p.mark_value_usd!, 0);
+  const unrealizedIL = unrealizedPositions.reduce((sum, p) => sum + p.unrealized_impermanent_loss_usd!, 0);
+  const unrealizedProfit = unrealizedPositions.reduce((sum, p) => sum + p.unrealized_profit_usd!, 0) + unrealizedGaugeRewardsUsd;
+  const unrealizedGasUsd = unrealizedPositions.reduce((sum, p) => sum + p.total_gas_usd, 0);
+  
+  // Unrealized positions' capital averaged from the first mint to the last mark
+  const unrealizedStart = Math.min(...unrealizedPositions.map(p => p.first_mint_timestamp!.getTime()));
+  const unrealizedEnd = Math.max(...unrealizedPositions.map(p => p.first_mint_timestamp!.getTime() + p.active_time_seconds * 1000));
+  const unrealizedAvgCapital = unrealizedEnd > unrealizedStart
+    ? unrealizedPositions.reduce((sum, p) => sum + p.capital_usd_seconds, 0) / ((unrealizedEnd - unrealizedStart) / 1000)
+    : "";
+  
+  // Capital and period returns; APR, Modified Dietz and TWR are only filled on the wallet summary
+  const returnColumns = (avgCapital: number | "", wallet: WalletStats | null) => ({
+    avg_capital_deployed_usd: avgCapital,
+    apr: wallet?.apr ?? "",
+    modified_dietz_return: wallet?.modified_dietz_return ?? "",
+    twr: wallet?.twr ?? "",
+  });
+  
+  // Risk metrics, only filled on the wallet summary
+  const riskColumns = (wallet: WalletStats | null) => ({
+    max_drawdown_usd: wallet?.risk?.max_drawdown_usd ?? "",
+    max_drawdown_pct: wallet?.risk?.max_drawdown_pct ?? "",
+    max_drawdown_seconds: wallet?.risk?.max_drawdown_seconds ?? "",
+    volatility_pct: wallet?.risk?.volatility_pct ?? "",
+    sharpe_ratio: wallet?.risk?.sharpe_ratio ?? "",
+    sortino_ratio: wallet?.risk?.sortino_ratio ?? "",
+    worst_position_profit_usd: wallet?.worst_position_profit_usd ?? "",
+  });
+  
+  // Share of the active time staked in the gauge, weighted by active time
+  const pctStaked = (positions: PositionStats[]): number | "" => {
+    const active = positions.reduce((sum, p) => sum + p.active_time_seconds, 0);
+    return active > 0 ? Math.min(100, positions.reduce((sum, p) => sum + p.staked_time_seconds, 0) / active * 100) : "";
+  };
+  
+  // P&L attribution columns; they add up to profit_usd (unrealized_profit_usd on unrealized rows)
+  const pnlColumns = (pnl: PnlAttribution | null) => ({
+    pnl_fees_usd: pnl ? pnl.fees_usd : "",
+    pnl_rewards_usd: pnl ? pnl.rewards_usd : "",
+    pnl_impermanent_loss_usd: pnl ? pnl.impermanent_loss_usd : "",
+    pnl_market_drift_usd: pnl ? pnl.market_drift_usd : "",
+  });
+  
+  // Wallet totals, with the gauge_getReward rewards that are only counted at wallet level
+  const sumPnl = (positions: PositionStats[], extraRewardsUsd: number): PnlAttribution => ({
+    fees_usd: positions.reduce((sum, p) => sum + (p.pnl?.fees_usd ?? 0), 0),
+    rewards_usd: positions.reduce((sum, p) => sum + (p.pnl?.rewards_usd ?? 0), 0) + extraRewardsUsd,
+    impermanent_loss_usd: positions.reduce((sum, p) => sum + (p.pnl?.impermanent_loss_usd ?? 0), 0),
+    market_drift_usd: positions.reduce((sum, p) => sum + (p.pnl?.market_drift_usd ?? 0), 0),
+  });
+  const walletPnl = sumPnl(completePositions, gaugeRewardsUsd);
+  const unrealizedPnl = sumPnl(unrealizedPositions, unrealizedGaugeRewardsUsd);
+  
+  const positionRow = (pos: PositionStats, rowType: string) => ({
+    row_type: rowType,
+    token_id: pos.token_id,
+    positions_count: "",
+    events_count: pos.events_count,
+    mint_count: pos.mint_count,
+    burn_count: pos.burn_count,
+    increase_count: pos.increase_count,
+    decrease_count: pos.decrease_count,
+    active_time_seconds: pos.active_time_seconds,
+    staked_time_seconds: pos.staked_time_seconds,
+    pct_time_staked: pctStaked([pos]),
+    first_mint_timestamp: pos.first_mint_timestamp?.toISOString() || "",
+    first_burn_timestamp: pos.first_burn_timestamp?.toISOString() || "",
+    [`total_deposit_${token0Column}`]: pos.total_deposit_token0,
+    [`total_deposit_${token1Column}`]: pos.total_deposit_token1,
+    [`${baseColumn}_price_at_deposit`]: pos.base_price_at_first_mint,
+    deposit_value_usd: pos.total_deposit_usd,
+    [`total_withdraw_${token0Column}`]: pos.total_withdraw_token0,
+    [`total_withdraw_${token1Column}`]: pos.total_withdraw_token1,
+    [`${baseColumn}_price_at_withdrawal`]: pos.base_price_at_first_burn,
+    withdrawal_value_usd: pos.total_withdraw_usd,
+    [`net_${token0Column}_change`]: "",
+    [`net_${token1Column}_change`]: "",
+    total_fees_usd: pos.total_fees_usd,
+    impermanent_loss_usd: pos.impermanent_loss_usd,
+    profit_usd: pos.profit_usd,
+    ...pnlColumns(pos.pnl),
+    total_gas_usd: pos.total_gas_usd,
+    net_profit_usd: pos.net_profit_usd ?? "",
+    xirr: pos.xirr !== null ? pos.xirr : "",
+    xirr_status: pos.xirr_status,
+    xirr_net: pos.xirr_net !== null ? pos.xirr_net : "",
+    xirr_net_status: pos.xirr_net_status,
+    ...returnColumns(pos.active_time_seconds > 0 ? pos.capital_usd_seconds / pos.active_time_seconds : "", null),
+    ...riskColumns(null),
+    ...markColumns(pos),
+    ...rangeColumns(positionRanges.get(pos.token_id)),
+  });
+  
   // Generate combined summary CSV with COMPLETE positions only + wallet summary at the end
-  // Pre-existing and unclosed positions are filtered out from the analysis files
+  // Pre-existing positions are filtered out; unclosed ones only appear (as unrealized) when marked
   const combinedCsvData = [
-    ...completePositions.map(pos => ({
-      row_type: "position",
-      token_id: pos.token_id,
-      positions_count: "",
-      events_count: pos.events_count,
-      mint_count: pos.mint_count,
-      burn_count: pos.burn_count,
-      active_time_seconds: pos.active_time_seconds,
-      first_mint_timestamp: pos.first_mint_timestamp?.toISOString() || "",
-      first_burn_timestamp: pos.first_burn_timestamp?.toISOString() || "",
-      total_deposit_usdc: pos.total_deposit_usdc,
-      total_deposit_cbbtc: pos.total_deposit_cbbtc,
-      btc_price_at_deposit: pos.btc_price_at_first_mint,
-      deposit_value_usd: pos.total_deposit_usd,
-      total_withdraw_usdc: pos.total_withdraw_usdc,
-      total_withdraw_cbbtc: pos.total_withdraw_cbbtc,
-      btc_price_at_withdrawal: pos.btc_price_at_first_burn,
-      withdrawal_value_usd: pos.total_withdraw_usd,
-      net_usdc_change: "",
-      net_cbbtc_change: "",
-      total_fees_usd: pos.total_fees_usd,
-      impermanent_loss_usd: pos.impermanent_loss_usd,
-      profit_usd: pos.profit_usd,
-      xirr: pos.xirr !== null ? pos.xirr : "",
-    })),
+    ...completePositions.map(pos => positionRow(pos, "position")),
     {
       row_type: "wallet_summary",
       token_id: "WALLET_TOTAL",
@@ -758,24 +1215,83 @@ async function main() {
       events_count: walletStats.events_count,
       mint_count: "",
       burn_count: "",
+      increase_count: "",
+      decrease_count: "",
       active_time_seconds: walletStats.avg_active_time_seconds,
+      staked_time_seconds: completePositions.length > 0
+        ? completePositions.reduce((sum, p) => sum + p.staked_time_seconds, 0) / completePositions.length
+        : 0,
+      pct_time_staked: pctStaked(completePositions),
       first_mint_timestamp: "",
       first_burn_timestamp: "",
-      total_deposit_usdc: walletStats.total_deposit_usdc,
-      total_deposit_cbbtc: walletStats.total_deposit_cbbtc,
-      btc_price_at_deposit: "",
+      [`total_deposit_${token0Column}`]: walletStats.total_deposit_token0,
+      [`total_deposit_${token1Column}`]: walletStats.total_deposit_token1,
+      [`${baseColumn}_price_at_deposit`]: "",
       deposit_value_usd: completePositions.reduce((sum, p) => sum + p.total_deposit_usd, 0),
-      total_withdraw_usdc: walletStats.total_withdraw_usdc,
-      total_withdraw_cbbtc: walletStats.total_withdraw_cbbtc,
-      btc_price_at_withdrawal: "",
+      [`total_withdraw_${token0Column}`]: walletStats.total_withdraw_token0,
+      [`total_withdraw_${token1Column}`]: walletStats.total_withdraw_token1,
+      [`${baseColumn}_price_at_withdrawal`]: "",
       withdrawal_value_usd: completePositions.reduce((sum, p) => sum + p.total_withdraw_usd, 0),
-      net_usdc_change: usdcChange,
-      net_cbbtc_change: cbbtcChange,
+      [`net_${token0Column}_change`]: token0Change,
+      [`net_${token1Column}_change`]: token1Change,
       total_fees_usd: walletStats.total_fees_usd,
       impermanent_loss_usd: walletStats.total_impermanent_loss_usd,
       profit_usd: walletStats.total_profit_usd,
+      ...pnlColumns(walletPnl),
+      total_gas_usd: walletStats.total_gas_usd,
+      net_profit_usd: walletStats.net_profit_usd,
       xirr: walletStats.xirr !== null ? walletStats.xirr : "",
-    }
+      xirr_status: walletStats.xirr_status,
+      xirr_net: walletStats.xirr_net !== null ? walletStats.xirr_net : "",
+      xirr_net_status: walletStats.xirr_net_status,
+      ...returnColumns(walletStats.avg_capital_deployed_usd, walletStats),
+      ...riskColumns(walletStats),
+      ...markColumns(null),
+      ...walletRangeColumns,
+    },
+    ...unrealizedPositions.map(pos => positionRow(pos, "position_unrealized")),
+    ...(unrealizedPositions.length > 0 ? [{
+      row_type: "wallet_unrealized",
+      token_id: "WALLET_UNREALIZED",
+      positions_count: unrealizedPositions.length,
+      events_count: unrealizedPositions.reduce((sum, p) => sum + p.events_count, 0),
+      mint_count: "",
+      burn_count: "",
+      increase_count: "",
+      decrease_count: "",
+      active_time_seconds: unrealizedPositions.reduce((sum, p) => sum + p.active_time_seconds, 0) / unrealizedPositions.length,
+      staked_time_seconds: unrealizedPositions.reduce((sum, p) => sum + p.staked_time_seconds, 0) / unrealizedPositions.length,
+      pct_time_staked: pctStaked(unrealizedPositions),
+      first_mint_timestamp: "",
+      first_burn_timestamp: "",
+      [`total_deposit_${token0Column}`]: unrealizedPositions.reduce((sum, p) => sum + p.total_deposit_token0, 0),
+      [`total_deposit_${token1Column}`]: unrealizedPositions.reduce((sum, p) => sum + p.total_deposit_token1, 0),
+      [`${baseColumn}_price_at_deposit`]: "",
+      deposit_value_usd: unrealizedPositions.reduce((sum, p) => sum + p.total_deposit_usd, 0),
+      [`total_withdraw_${token0Column}`]: "",
+      [`total_withdraw_${token1Column}`]: "",
+      [`${baseColumn}_price_at_withdrawal`]: "",
+      withdrawal_value_usd: "",
+      [`net_${token0Column}_change`]: "",
+      [`net_${token1Column}_change`]: "",
+      total_fees_usd: unrealizedPositions.reduce((sum, p) => sum + p.total_fees_usd, 0),
+      impermanent_loss_usd: "",
+      profit_usd: "",
+      ...pnlColumns(unrealizedPnl),
+      total_gas_usd: unrealizedGasUsd,
+      net_profit_usd: unrealizedProfit - unrealizedGasUsd,
+      xirr: "",
+      xirr_status: "",
+      xirr_net: "",
+      xirr_net_status: "",
+      ...returnColumns(unrealizedAvgCapital, null),
+      ...riskColumns(null),
+      [`${baseColumn}_price_at_mark`]: unrealizedPositions[0].mark_price!,
+      mark_value_usd: unrealizedMarkValue,
+      unrealized_impermanent_loss_usd: unrealizedIL,
+      unrealized_profit_usd: unrealizedProfit,
+      ...rangeColumns(undefined),
+    }] : []),
   ];
   
   const combinedCsv = stringify(combinedCsvData, {
@@ -784,28 +1300,138 @@ async function main() {
   
   fs.writeFileSync(summaryOutputPath, combinedCsv, "utf-8");
   
-  const dailySummary = {
-    date: "TOTAL",
-    events_count: dailyStats.reduce((sum, d) => sum + d.events_count, 0),
-    positions_opened: dailyStats.reduce((sum, d) => sum + d.positions_opened, 0),
-    positions_closed: dailyStats.reduce((sum, d) => sum + d.positions_closed, 0),
-    deposit_usdc: dailyStats.reduce((sum, d) => sum + d.deposit_usdc, 0),
-    deposit_cbbtc: dailyStats.reduce((sum, d) => sum + d.deposit_cbbtc, 0),
-    deposit_value_usd: dailyStats.reduce((sum, d) => sum + d.deposit_value_usd, 0),
-    withdraw_usdc: dailyStats.reduce((sum, d) => sum + d.withdraw_usdc, 0),
-    withdraw_cbbtc: dailyStats.reduce((sum, d) => sum + d.withdraw_cbbtc, 0),
-    withdraw_value_usd: dailyStats.reduce((sum, d) => sum + d.withdraw_value_usd, 0),
-    fees_collected_usd: dailyStats.reduce((sum, d) => sum + d.fees_collected_usd, 0),
-    aero_rewards_collected: dailyStats.reduce((sum, d) => sum + d.aero_rewards_collected, 0),
-    daily_income_usd: dailyStats.reduce((sum, d) => sum + d.daily_income_usd, 0),
+  // Periods linked into a return for the whole range
+  const linkedReturn = periodStats
+    .filter(p => p.period_return !== null)
+    .reduce((growth, p) => growth * (1 + p.period_return! / 100), 1);
+  const periodSummary = {
+    period: "TOTAL",
+    period_start: periodStats.length > 0 ? periodStats[0].period_start : "",
+    events_count: periodStats.reduce((sum, d) => sum + d.events_count, 0),
+    positions_opened: periodStats.reduce((sum, d) => sum + d.positions_opened, 0),
+    positions_closed: periodStats.reduce((sum, d) => sum + d.positions_closed, 0),
+    [`deposit_${token0Column}`]: periodStats.reduce((sum, d) => sum + d.deposit_token0, 0),
+    [`deposit_${token1Column}`]: periodStats.reduce((sum, d) => sum + d.deposit_token1, 0),
+    deposit_value_usd: periodStats.reduce((sum, d) => sum + d.deposit_value_usd, 0),
+    [`withdraw_${token0Column}`]: periodStats.reduce((sum, d) => sum + d.withdraw_token0, 0),
+    [`withdraw_${token1Column}`]: periodStats.reduce((sum, d) => sum + d.withdraw_token1, 0),
+    withdraw_value_usd: periodStats.reduce((sum, d) => sum + d.withdraw_value_usd, 0),
+    fees_collected_usd: periodStats.reduce((sum, d) => sum + d.fees_collected_usd, 0),
+    aero_rewards_collected: periodStats.reduce((sum, d) => sum + d.aero_rewards_collected, 0),
+    income_usd: periodStats.reduce((sum, d) => sum + d.income_usd, 0),
+    capital_deployed_usd: periodStats.length > 0 ? periodStats[periodStats.length - 1].capital_deployed_usd : 0,
+    opening_capital_usd: periodStats.length > 0 ? periodStats[0].opening_capital_usd : 0,
+    closing_capital_usd: periodStats.length > 0 ? periodStats[periodStats.length - 1].closing_capital_usd : 0,
+    period_return_pct: periodStats.some(p => p.period_return !== null) ? (linkedReturn - 1) * 100 : "",
   };
   
-  const dailyCsvData = [...dailyStats, dailySummary];
-  const dailyCsv = stringify(dailyCsvData, {
+  // Name the token columns after the pool tokens (e.g. deposit_usdc, deposit_cbbtc)
+  const periodRows = periodStats.map(d => ({
+    period: d.period,
+    period_start: d.period_start,
+    events_count: d.events_count,
+    positions_opened: d.positions_opened,
+    positions_closed: d.positions_closed,
+    [`deposit_${token0Column}`]: d.deposit_token0,
+    [`deposit_${token1Column}`]: d.deposit_token1,
+    deposit_value_usd: d.deposit_value_usd,
+    [`withdraw_${token0Column}`]: d.withdraw_token0,
+    [`withdraw_${token1Column}`]: d.withdraw_token1,
+    withdraw_value_usd: d.withdraw_value_usd,
+    fees_collected_usd: d.fees_collected_usd,
+    aero_rewards_collected: d.aero_rewards_collected,
+    income_usd: d.income_usd,
+    capital_deployed_usd: d.capital_deployed_usd,
+    opening_capital_usd: d.opening_capital_usd,
+    closing_capital_usd: d.closing_capital_usd,
+    period_return_pct: d.period_return ?? "",
+  }));
+  
+  const periodCsv = stringify([...periodRows, periodSummary], {
     header: true,
   });
   
-  fs.writeFileSync(dailyOutputPath, dailyCsv, "utf-8");
+  fs.writeFileSync(dailyOutputPath, periodCsv, "utf-8");
+  
+  // Range width, tick at the mint and duration buckets of the complete positions; the tick at the
+  // mint comes from range tracking, else from the mint price
+  const rangePositions: RangePosition[] = completePositions.map(p => {
+    const range = positionRanges.get(p.token_id);
+    let mintRangePosition: number | null = range && range.range_position_start !== "" ? range.range_position_start : null;
+    if (mintRangePosition === null && p.tick_lower !== null && p.tick_upper !== null && p.tick_upper > p.tick_lower && p.base_price_at_first_mint > 0) {
+      mintRangePosition = (tickAtBasePrice(pool, p.base_price_at_first_mint) - p.tick_lower) / (p.tick_upper - p.tick_lower);
+    }
+    return {
+      token_id: p.token_id,
+      tick_lower: p.tick_lower,
+      tick_upper: p.tick_upper,
+      mint_range_position: mintRangePosition,
+      active_time_seconds: p.active_time_seconds,
+      deposit_value_usd: p.total_deposit_usd,
+      capital_usd_seconds: p.capital_usd_seconds,
+      fees_usd: p.total_fees_usd,
+      impermanent_loss_usd: p.impermanent_loss_usd,
+      profit_usd: p.profit_usd,
+    };
+  });
+  const rangeBuckets = calculateRangeBuckets(rangePositions);
+  const rangeOutputPath = rangeBucketsPath(summaryOutputPath);
+  const rangeCsv = stringify(rangeBuckets.map(b => ({ ...b, fee_apr: b.fee_apr ?? "" })), {
+    header: true,
+  });
+  fs.writeFileSync(rangeOutputPath, rangeCsv, "utf-8");
+  
+  // Rebalance episodes over all positions, since a chain may end in a position that is still open
+  const rebalanceLegs: RebalanceLeg[] = positionStats.map(p => {
+    const positionRows = positionMap.get(p.token_id)!;
+    const mint = positionRows.find(r => r.action === "mint");
+    const burn = positionRows.filter(r => r.action === "burn").pop();
+    const range = positionRanges.get(p.token_id);
+    return {
+      token_id: p.token_id,
+      mint_time: mint ? new Date(mint.timestamp).getTime() : null,
+      mint_tx: mint ? mint.tx_hash : "",
+      mint_value_usd: mint ? mint.amount0_usd + mint.amount1_usd : 0,
+      burn_time: burn ? new Date(burn.timestamp).getTime() : null,
+      burn_tx: burn ? burn.tx_hash : "",
+      burn_value_usd: burn ? burn.amount0_usd + burn.amount1_usd : 0,
+      burn_price: burn ? burn.base_price : 0,
+      tick_lower: p.tick_lower,
+      tick_upper: p.tick_upper,
+      range_position_end: range && range.range_position_end !== "" ? range.range_position_end : null,
+      seconds_out_of_range_at_end: range && typeof range.seconds_out_of_range_at_end === "number" ? range.seconds_out_of_range_at_end : null,
+      profit_usd: p.mint_count > 0 && p.burn_count > 0 ? p.profit_usd : p.unrealized_profit_usd,
+      gas_usd: p.total_gas_usd,
+    };
+  });
+  const rebalances = detectRebalances(rebalanceLegs, rebalanceConfig);
+  const rebalanceOutputPath = rebalanceEpisodesPath(summaryOutputPath);
+  const rebalanceCsv = stringify(rebalances.episodes.map(e => ({
+    chain_id: e.chain_id,
+    episode: e.episode,
+    timestamp: e.timestamp,
+    closed_token_id: e.closed_token_id,
+    opened_token_ids: e.opened_token_ids.join(" "),
+    same_tx: String(e.same_tx),
+    gap_seconds: e.gap_seconds,
+    withdraw_value_usd: e.withdraw_value_usd,
+    deposit_value_usd: e.deposit_value_usd,
+    [`${baseColumn}_price_at_trigger`]: e.trigger_price,
+    trigger_range_position: e.trigger_range_position ?? "",
+    seconds_out_of_range_before: e.seconds_out_of_range_before ?? "",
+    old_tick_lower: e.old_tick_lower ?? "",
+    old_tick_upper: e.old_tick_upper ?? "",
+    new_tick_lower: e.new_tick_lower ?? "",
+    new_tick_upper: e.new_tick_upper ?? "",
+    range_shift_ticks: e.range_shift_ticks ?? "",
+    range_shift_pct: e.range_shift_pct ?? "",
+    width_change_ticks: e.width_change_ticks ?? "",
+    chain_profit_usd: e.chain_profit_usd,
+    chain_gas_usd: e.chain_gas_usd,
+  })), {
+    header: true,
+  });
+  fs.writeFileSync(rebalanceOutputPath, rebalanceCsv, "utf-8");
   
   const formatOperatingTime = (days: number): string => {
     const totalHours = days * 24;
@@ -823,6 +1449,32 @@ async function main() {
   
   const excludedPositionCount = positionStats.length - completePositions.length;
   
+  if (rangeBuckets.length > 0) {
+    console.log("=".repeat(60));
+    console.log("RANGE BUCKETS (complete positions)");
+    console.log("=".repeat(60));
+    for (const b of rangeBuckets) {
+      console.log(`${`${b.dimension} ${b.bucket}:`.padEnd(28)} ${String(b.positions_count).padStart(4)} positions, fees $${b.total_fees_usd.toFixed(2)}, IL $${b.impermanent_loss_usd.toFixed(2)}, profit $${b.profit_usd.toFixed(2)}, fee APR ${b.fee_apr !== null ? b.fee_apr.toFixed(2) + '%' : 'N/A'}`);
+    }
+  }
+  
+  if (rebalances.episodes.length > 0) {
+    const episodes = rebalances.episodes;
+    const outOfRange = episodes.filter(e => e.seconds_out_of_range_before !== null);
+    console.log("=".repeat(60));
+    console.log("REBALANCE CHAINS");
+    console.log("=".repeat(60));
+    console.log(`Chains:              ${rebalances.chains.length} (${episodes.length} rebalances, ${rebalances.chains.reduce((sum, c) => sum + c.token_ids.length, 0)} positions)`);
+    console.log(`Same Transaction:    ${episodes.filter(e => e.same_tx).length} of ${episodes.length}`);
+    console.log(`Avg Gap:             ${formatDuration(episodes.reduce((sum, e) => sum + e.gap_seconds, 0) / episodes.length)}`);
+    if (outOfRange.length > 0) {
+      console.log(`Avg Out of Range:    ${formatDuration(outOfRange.reduce((sum, e) => sum + e.seconds_out_of_range_before!, 0) / outOfRange.length)} before rebalancing`);
+    }
+    for (const chain of rebalances.chains) {
+      console.log(`  Chain ${chain.chain_id}: ${chain.episodes} rebalances, profit $${chain.profit_usd.toFixed(2)}, gas $${chain.gas_usd.toFixed(2)}` + (chain.open ? " (still open)" : ""));
+    }
+  }
+  
   console.log("=".repeat(60));
   console.log("SUMMARY");
   console.log("=".repeat(60));
@@ -833,12 +1485,52 @@ async function main() {
   console.log(`Total Fees:          $${walletStats.total_fees_usd.toFixed(2)}`);
   console.log(`AERO Rewards:        ${walletStats.total_collected_aero_rewards.toFixed(4)} AERO ($${walletStats.total_collected_aero_rewards_usd.toFixed(2)})`);
   console.log(`Impermanent Loss:    $${walletStats.total_impermanent_loss_usd.toFixed(2)}`);
+  if (walletSecondsTracked > 0) {
+    console.log(`Time In Range:       ${(walletSecondsInRange / walletSecondsTracked * 100).toFixed(1)}% (${walletRangeColumns.range_exits} range exits)`);
+  }
+  const walletPctStaked = pctStaked(completePositions);
+  if (walletPctStaked !== "" && walletPctStaked > 0) {
+    console.log(`Time Staked:         ${walletPctStaked.toFixed(1)}%`);
+  }
   console.log(`Total Profit:        $${walletStats.total_profit_usd.toFixed(2)}`);
+  console.log(`  = Fees $${walletPnl.fees_usd.toFixed(2)} + Rewards $${walletPnl.rewards_usd.toFixed(2)} + IL $${walletPnl.impermanent_loss_usd.toFixed(2)} + Market Drift $${walletPnl.market_drift_usd.toFixed(2)}`);
   console.log(`APR:                 ${walletStats.apr !== null ? walletStats.apr.toFixed(2) + '%' : 'N/A'}`);
-  console.log(`Portfolio XIRR:      ${walletStats.xirr !== null ? walletStats.xirr.toFixed(2) + '%' : 'N/A'}`);
+  console.log(`Portfolio XIRR:      ${formatXirr(walletStats.xirr, walletStats.xirr_status)}`);
+  console.log(`Modified Dietz:      ${walletStats.modified_dietz_return !== null ? walletStats.modified_dietz_return.toFixed(4) + '% (period)' : 'N/A'}`);
+  console.log(`TWR:                 ${walletStats.twr !== null ? walletStats.twr.toFixed(4) + '% (period)' : 'N/A'}`);
+  if (walletStats.risk) {
+    const risk = walletStats.risk;
+    const ratio = (value: number | null) => value !== null ? value.toFixed(2) : 'N/A';
+    console.log(`Max Drawdown:        ${risk.max_drawdown_pct.toFixed(2)}% ($${risk.max_drawdown_usd.toFixed(2)}, ${formatDuration(risk.max_drawdown_seconds)}${risk.max_drawdown_recovered ? '' : ', not recovered'})`);
+    console.log(`Volatility:          ${risk.volatility_pct !== null ? risk.volatility_pct.toFixed(2) + '% (annualized)' : 'N/A'}`);
+    console.log(`Sharpe / Sortino:    ${ratio(risk.sharpe_ratio)} / ${ratio(risk.sortino_ratio)}`);
+  }
+  if (walletStats.worst_position_profit_usd !== null) {
+    console.log(`Worst Position:      $${walletStats.worst_position_profit_usd.toFixed(2)}`);
+  }
+  if (walletStats.total_gas_usd > 0) {
+    console.log(`Gas Costs:           $${walletStats.total_gas_usd.toFixed(2)}`);
+    console.log(`Net Profit:          $${walletStats.net_profit_usd.toFixed(2)}`);
+    console.log(`Net APR:             ${walletStats.apr_net !== null ? walletStats.apr_net.toFixed(2) + '%' : 'N/A'}`);
+    console.log(`Net XIRR:            ${formatXirr(walletStats.xirr_net, walletStats.xirr_net_status)}`);
+  }
+  if (unrealizedPositions.length > 0) {
+    console.log("-".repeat(60));
+    console.log("UNREALIZED (open positions marked at the end of the window)");
+    console.log(`Open Positions:      ${unrealizedPositions.length}` + (unclosedPositionsCount > unrealizedPositions.length ? ` (${unclosedPositionsCount - unrealizedPositions.length} without a mark still excluded)` : ''));
+    console.log(`Mark Price:          ${unrealizedPositions[0].mark_price!.toFixed(2)} ${quoteToken.symbol}/${baseToken.symbol}`);
+    console.log(`Mark Value:          $${unrealizedMarkValue.toFixed(2)}`);
+    console.log(`Unrealized IL:       $${unrealizedIL.toFixed(2)}`);
+    console.log(`Unrealized Profit:   $${unrealizedProfit.toFixed(2)}`);
+    if (unrealizedGasUsd > 0) {
+      console.log(`Unrealized Net:      $${(unrealizedProfit - unrealizedGasUsd).toFixed(2)} (after $${unrealizedGasUsd.toFixed(2)} gas)`);
+    }
+  }
   console.log("=".repeat(60));
   console.log(`\n✓ Position analysis written to: ${summaryOutputPath}`);
-  console.log(`✓ Daily analysis written to: ${dailyOutputPath}`);
+  console.log(`✓ Period analysis (${periodBucket}, ${periodTimezone}) written to: ${dailyOutputPath}`);
+  console.log(`✓ Range analysis written to: ${rangeOutputPath}`);
+  console.log(`✓ Rebalance episodes written to: ${rebalanceOutputPath}`);
   console.log("\nDone!");
 }
 
@@ -22,14 +22,8 @@ interface AnalysisRow {
   positions_count: string;
   events_count: string;
   active_time_seconds: string;
-  total_deposit_usdc: string;
-  total_deposit_cbbtc: string;
   deposit_value_usd: string;
-  total_withdraw_usdc: string;
-  total_withdraw_cbbtc: string;
   withdrawal_value_usd: string;
-  net_usdc_change: string;
-  net_cbbtc_change: string;
   total_fees_usd: string;
   impermanent_loss_usd: string;
   profit_usd: string;
@@ -38,19 +32,15 @@ interface AnalysisRow {
 }
 
 interface DailyRow {
-  date: string;
+  period: string; // Bucket start, or TOTAL on the last row
   events_count: string;
   positions_opened: string;
   positions_closed: string;
-  deposit_usdc: string;
-  deposit_cbbtc: string;
   deposit_value_usd: string;
-  withdraw_usdc: string;
-  withdraw_cbbtc: string;
   withdraw_value_usd: string;
   fees_collected_usd: string;
   aero_rewards_collected: string;
-  daily_income_usd: string;
+  income_usd: string;
   capital_deployed_usd: string;
 }
 
@@ -327,7 +317,7 @@ async function generateBatchComparison(configs: AddressConfig[], outputDir: stri
     
     // Get wallet summary
     const wallet = positionData.find(r => r.row_type === "wallet_summary");
-    const daily = dailyData[0];
+    const daily = dailyData[dailyData.length - 1]; // TOTAL row
     
     if (!wallet || !daily) {
       console.warn(`  Warning: Missing wallet summary for ${config.address}, skipping...`);
@@ -376,7 +366,8 @@ async function generateBatchComparison(configs: AddressConfig[], outputDir: stri
     const avgPositionDuration = parseFloat(wallet.active_time_seconds);
     const depositValue = parseFloat(wallet.deposit_value_usd);
     const withdrawValue = parseFloat(wallet.withdrawal_value_usd);
-    const avgCapital = (depositValue + withdrawValue) / 2;
+    // Time-weighted capital from the analysis; older files without the column fall back to (deposits + withdrawals) / 2
+    const avgCapital = wallet.avg_capital_deployed_usd ? parseFloat(wallet.avg_capital_deployed_usd) : (depositValue + withdrawValue) / 2;
     const profit = parseFloat(wallet.profit_usd);
     const il = parseFloat(wallet.impermanent_loss_usd);
     const aeroRewards = parseFloat(daily.aero_rewards_collected);
@@ -397,8 +388,8 @@ async function generateBatchComparison(configs: AddressConfig[], outputDir: stri
       }
     }
     
-    // Calculate APR
-    const apr = (profit / avgCapital) * (365 / operatingDays) * 100;
+    // Calculate APR (from the analysis when it has the apr column)
+    const apr = wallet.apr ? parseFloat(wallet.apr) : (profit / avgCapital) * (365 / operatingDays) * 100;
     
     // Store data
     addressData[config.address] = {
@@ -419,7 +410,14 @@ async function generateBatchComparison(configs: AddressConfig[], outputDir: stri
       profitPctOfCapital: ((profit / avgCapital) * 100).toFixed(4),
       ilPctOfCapital: ((il / avgCapital) * 100).toFixed(4),
       aprPct: apr.toFixed(2),
-      xirr: wallet.xirr && wallet.xirr !== "N/A" ? parseFloat(wallet.xirr).toFixed(2) : "N/A"
+      xirr: wallet.xirr && wallet.xirr !== "N/A" ? parseFloat(wallet.xirr).toFixed(2) : "N/A",
+      // Risk from the wallet's equity curve (blank in analyses without one)
+      maxDrawdownPct: wallet.max_drawdown_pct ? parseFloat(wallet.max_drawdown_pct).toFixed(2) : "N/A",
+      maxDrawdownDuration: wallet.max_drawdown_seconds ? formatDuration(parseFloat(wallet.max_drawdown_seconds)) : "N/A",
+      volatilityPct: wallet.volatility_pct ? parseFloat(wallet.volatility_pct).toFixed(2) : "N/A",
+      sharpeRatio: wallet.sharpe_ratio ? parseFloat(wallet.sharpe_ratio).toFixed(2) : "N/A",
+      sortinoRatio: wallet.sortino_ratio ? parseFloat(wallet.sortino_ratio).toFixed(2) : "N/A",
+      worstPositionUSD: wallet.worst_position_profit_usd ? parseFloat(wallet.worst_position_profit_usd).toFixed(2) : "N/A"
     };
   }
   
@@ -446,7 +444,13 @@ async function generateBatchComparison(configs: AddressConfig[], outputDir: stri
     { label: "Total Profit/Loss (USD)", key: "totalProfitUSD" },
     { label: "Profit % of Capital", key: "profitPctOfCapital" },
     { label: "APR (%)", key: "aprPct" },
-    { label: "Portfolio XIRR (%)", key: "xirr" }
+    { label: "Portfolio XIRR (%)", key: "xirr" },
+    { label: "Max Drawdown (%)", key: "maxDrawdownPct" },
+    { label: "Max Drawdown Duration", key: "maxDrawdownDuration" },
+    { label: "Volatility (%, annualized)", key: "volatilityPct" },
+    { label: "Sharpe Ratio", key: "sharpeRatio" },
+    { label: "Sortino Ratio", key: "sortinoRatio" },
+    { label: "Worst Position P&L (USD)", key: "worstPositionUSD" }
   ];
   
   // Create rows
@@ -0,0 +1,95 @@
+/**
+ * Inspect and maintain the on-disk swap log cache
+ * Usage:
+ *   npm run cache                                   # List cached segments
+ *   npm run cache list [pool]                       # List cached segments (optionally for one pool)
+ *   npm run cache prune [maxAgeDays]                # Remove redundant (and optionally old) segments
+ *   npm run cache invalidate <pool|all> [from] [to] # Remove segments overlapping a block range
+ */
+
+import * as path from "path";
+import {
+  CacheSegment,
+  getSwapCacheDir,
+  listCacheSegments,
+  pruneCacheSegments,
+  invalidateCacheSegments,
+} from "./swap-cache";
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function printSegments(segments: CacheSegment[]): void {
+  let currentPool = "";
+  for (const segment of segments) {
+    if (segment.pool !== currentPool) {
+      currentPool = segment.pool;
+      const poolSegments = segments.filter(s => s.pool === currentPool);
+      const blocks = poolSegments.reduce((sum, s) => sum + (s.toBlock - s.fromBlock + 1), 0);
+      const bytes = poolSegments.reduce((sum, s) => sum + s.sizeBytes, 0);
+      console.log(`\nPool ${currentPool}: ${poolSegments.length} segment(s), ${blocks} blocks, ${formatBytes(bytes)}`);
+    }
+    console.log(`  ${segment.fromBlock} - ${segment.toBlock}  ${formatBytes(segment.sizeBytes).padStart(9)}  ${segment.modifiedAt.toISOString()}  ${path.basename(segment.filePath)}`);
+  }
+}
+
+function parseBlockArg(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const block = parseInt(value);
+  if (isNaN(block)) {
+    console.error(`Error: Invalid ${name} block: ${value}`);
+    process.exit(1);
+  }
+  return block;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] || "list";
+
+  console.log("Swap Log Cache");
+  console.log("=".repeat(60));
+  console.log(`Cache directory: ${getSwapCacheDir()}`);
+
+  if (command === "list") {
+    const segments = listCacheSegments(args[1]);
+    if (segments.length === 0) {
+      console.log("\nCache is empty");
+      return;
+    }
+    printSegments(segments);
+  } else if (command === "prune") {
+    const maxAgeDays = args[1] !== undefined ? parseFloat(args[1]) : undefined;
+    if (maxAgeDays !== undefined && isNaN(maxAgeDays)) {
+      console.error(`Error: Invalid age in days: ${args[1]}`);
+      process.exit(1);
+    }
+    const removed = pruneCacheSegments(maxAgeDays);
+    console.log(`\n✓ Pruned ${removed.length} segment(s), freed ${formatBytes(removed.reduce((sum, s) => sum + s.sizeBytes, 0))}`);
+  } else if (command === "invalidate") {
+    if (!args[1]) {
+      console.error("Error: Missing pool address (or 'all')");
+      process.exit(1);
+    }
+    const pool = args[1] === "all" ? undefined : args[1];
+    const fromBlock = parseBlockArg(args[2], "from");
+    const toBlock = parseBlockArg(args[3], "to");
+    const removed = invalidateCacheSegments(pool, fromBlock, toBlock);
+    console.log(`\n✓ Invalidated ${removed.length} segment(s)`);
+  } else {
+    console.error(`Error: Unknown command: ${command}`);
+    console.error("Usage:");
+    console.error("  npm run cache list [pool]");
+    console.error("  npm run cache prune [maxAgeDays]");
+    console.error("  npm run cache invalidate <pool|all> [fromBlock] [toBlock]");
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,5 @@
+/**
+ * Constants of the Base chain shared by the pricing, range tracking and equity curve modules
+ */
+
+export const BASE_BLOCK_TIME_SECONDS = 2; // Base produces a block every 2 seconds
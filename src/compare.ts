@@ -9,6 +9,7 @@ import "dotenv/config";
 import { execSync } from "child_process";
 import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
+import { PoolConfig, TokenConfig, resolvePool, getQuoteToken, tokenColumnSuffix } from "./pools";
 
 interface AnalysisRow {
   row_type: string;
@@ -16,14 +17,8 @@ interface AnalysisRow {
   positions_count: string;
   events_count: string;
   active_time_seconds: string;
-  total_deposit_usdc: string;
-  total_deposit_cbbtc: string;
   deposit_value_usd: string;
-  total_withdraw_usdc: string;
-  total_withdraw_cbbtc: string;
   withdrawal_value_usd: string;
-  net_usdc_change: string;
-  net_cbbtc_change: string;
   total_fees_usd: string;
   impermanent_loss_usd: string;
   profit_usd: string;
@@ -32,19 +27,15 @@ interface AnalysisRow {
 }
 
 interface DailyRow {
-  date: string;
+  period: string; // Bucket start, or TOTAL on the last row
   events_count: string;
   positions_opened: string;
   positions_closed: string;
-  deposit_usdc: string;
-  deposit_cbbtc: string;
   deposit_value_usd: string;
-  withdraw_usdc: string;
-  withdraw_cbbtc: string;
   withdraw_value_usd: string;
   fees_collected_usd: string;
   aero_rewards_collected: string;
-  daily_income_usd: string;
+  income_usd: string;
   capital_deployed_usd: string;
 }
 
@@ -434,6 +425,29 @@ async function main() {
   
   const metadata = extractMetadata(file1TransactionDetails); // Use copywallet metadata
   
+  // Pool of the analysed wallets, used to name the per-token columns
+  const detectPool = (transactionFile: string): PoolConfig => {
+    if (!fs.existsSync(transactionFile)) {
+      return resolvePool();
+    }
+    
+    const txData: any[] = parse(fs.readFileSync(transactionFile, "utf-8"), {
+      columns: true,
+      skip_empty_lines: true
+    });
+    
+    return resolvePool(txData[0]?.pool);
+  };
+  
+  const pool = detectPool(file1TransactionDetails);
+  const symbol0 = pool.token0.symbol;
+  const symbol1 = pool.token1.symbol;
+  const column0 = tokenColumnSuffix(pool.token0);
+  const column1 = tokenColumnSuffix(pool.token1);
+  const tokenDecimals = (token: TokenConfig) => pool.stable && token === getQuoteToken(pool) ? 2 : 6;
+  const decimals0 = tokenDecimals(pool.token0);
+  const decimals1 = tokenDecimals(pool.token1);
+  
   // Calculate metrics
   const positions1 = parseInt(wallet1.positions_count);
   const positions2 = parseInt(wallet2.positions_count);
@@ -454,8 +468,9 @@ async function main() {
   const depositValue2 = parseFloat(wallet2.deposit_value_usd);
   const withdrawValue1 = parseFloat(wallet1.withdrawal_value_usd);
   const withdrawValue2 = parseFloat(wallet2.withdrawal_value_usd);
-  const avgCapital1 = (depositValue1 + withdrawValue1) / 2;
-  const avgCapital2 = (depositValue2 + withdrawValue2) / 2;
+  // Time-weighted capital from the analysis; older files without the column fall back to (deposits + withdrawals) / 2
+  const avgCapital1 = wallet1.avg_capital_deployed_usd ? parseFloat(wallet1.avg_capital_deployed_usd) : (depositValue1 + withdrawValue1) / 2;
+  const avgCapital2 = wallet2.avg_capital_deployed_usd ? parseFloat(wallet2.avg_capital_deployed_usd) : (depositValue2 + withdrawValue2) / 2;
   
   const profit1 = parseFloat(wallet1.profit_usd);
   const profit2 = parseFloat(wallet2.profit_usd);
@@ -466,20 +481,20 @@ async function main() {
   const positionsClosed1 = parseInt(daily1.positions_closed);
   const positionsClosed2 = parseInt(daily2.positions_closed);
   
-  const depositUsdc1 = parseFloat(wallet1.total_deposit_usdc);
-  const depositUsdc2 = parseFloat(wallet2.total_deposit_usdc);
-  const depositCbbtc1 = parseFloat(wallet1.total_deposit_cbbtc);
-  const depositCbbtc2 = parseFloat(wallet2.total_deposit_cbbtc);
+  const depositToken0_1 = parseFloat(wallet1[`total_deposit_${column0}`]);
+  const depositToken0_2 = parseFloat(wallet2[`total_deposit_${column0}`]);
+  const depositToken1_1 = parseFloat(wallet1[`total_deposit_${column1}`]);
+  const depositToken1_2 = parseFloat(wallet2[`total_deposit_${column1}`]);
   
-  const withdrawUsdc1 = parseFloat(wallet1.total_withdraw_usdc);
-  const withdrawUsdc2 = parseFloat(wallet2.total_withdraw_usdc);
-  const withdrawCbbtc1 = parseFloat(wallet1.total_withdraw_cbbtc);
-  const withdrawCbbtc2 = parseFloat(wallet2.total_withdraw_cbbtc);
+  const withdrawToken0_1 = parseFloat(wallet1[`total_withdraw_${column0}`]);
+  const withdrawToken0_2 = parseFloat(wallet2[`total_withdraw_${column0}`]);
+  const withdrawToken1_1 = parseFloat(wallet1[`total_withdraw_${column1}`]);
+  const withdrawToken1_2 = parseFloat(wallet2[`total_withdraw_${column1}`]);
   
-  const netUsdc1 = parseFloat(wallet1.net_usdc_change);
-  const netUsdc2 = parseFloat(wallet2.net_usdc_change);
-  const netCbbtc1 = parseFloat(wallet1.net_cbbtc_change);
-  const netCbbtc2 = parseFloat(wallet2.net_cbbtc_change);
+  const netToken0_1 = parseFloat(wallet1[`net_${column0}_change`]);
+  const netToken0_2 = parseFloat(wallet2[`net_${column0}_change`]);
+  const netToken1_1 = parseFloat(wallet1[`net_${column1}_change`]);
+  const netToken1_2 = parseFloat(wallet2[`net_${column1}_change`]);
   
   const aeroRewards1 = parseFloat(daily1.aero_rewards_collected);
   const aeroRewards2 = parseFloat(daily2.aero_rewards_collected);
@@ -682,21 +697,21 @@ async function main() {
     ratio: depositRatio,
     vs_expected: calculateVsExpected(depositRatio, capitalRatio) // Should match capital ratio
   });
-  const usdcDepRatio = calculateRatio(depositUsdc1, depositUsdc2);
+  const token0DepRatio = calculateRatio(depositToken0_1, depositToken0_2);
   csvData.push({
-    metric: "USDC Deposited",
-    [label1]: depositUsdc1.toFixed(2),
-    [label2]: depositUsdc2.toFixed(2),
-    ratio: usdcDepRatio,
-    vs_expected: calculateVsExpected(usdcDepRatio, capitalRatio) // Should match capital ratio
+    metric: `${symbol0} Deposited`,
+    [label1]: depositToken0_1.toFixed(decimals0),
+    [label2]: depositToken0_2.toFixed(decimals0),
+    ratio: token0DepRatio,
+    vs_expected: calculateVsExpected(token0DepRatio, capitalRatio) // Should match capital ratio
   });
-  const btcDepRatio = calculateRatio(depositCbbtc1, depositCbbtc2);
+  const token1DepRatio = calculateRatio(depositToken1_1, depositToken1_2);
   csvData.push({
-    metric: "cbBTC Deposited",
-    [label1]: depositCbbtc1.toFixed(6),
-    [label2]: depositCbbtc2.toFixed(6),
-    ratio: btcDepRatio,
-    vs_expected: calculateVsExpected(btcDepRatio, capitalRatio) // Should match capital ratio
+    metric: `${symbol1} Deposited`,
+    [label1]: depositToken1_1.toFixed(decimals1),
+    [label2]: depositToken1_2.toFixed(decimals1),
+    ratio: token1DepRatio,
+    vs_expected: calculateVsExpected(token1DepRatio, capitalRatio) // Should match capital ratio
   });
   const avgCapRatio = calculateRatio(avgCapital1, avgCapital2);
   csvData.push({
@@ -708,13 +723,13 @@ async function main() {
   });
   
   // Token allocation ratios
-  const usdcBtcRatio1 = depositUsdc1 / depositCbbtc1;
-  const usdcBtcRatio2 = depositUsdc2 / depositCbbtc2;
-  const tokenAllocRatio = calculateRatio(usdcBtcRatio1, usdcBtcRatio2);
+  const tokenDepositRatio1 = depositToken0_1 / depositToken1_1;
+  const tokenDepositRatio2 = depositToken0_2 / depositToken1_2;
+  const tokenAllocRatio = calculateRatio(tokenDepositRatio1, tokenDepositRatio2);
   csvData.push({
-    metric: "USDC/cbBTC Deposit Ratio",
-    [label1]: usdcBtcRatio1.toFixed(2),
-    [label2]: usdcBtcRatio2.toFixed(2),
+    metric: `${symbol0}/${symbol1} Deposit Ratio`,
+    [label1]: tokenDepositRatio1.toFixed(2),
+    [label2]: tokenDepositRatio2.toFixed(2),
     ratio: tokenAllocRatio,
     vs_expected: calculateVsExpected(tokenAllocRatio, 1.0) // Should be ~1.0x (same strategy)
   });
@@ -747,21 +762,21 @@ async function main() {
     ratio: withdrawRatio,
     vs_expected: calculateVsExpected(withdrawRatio, capitalRatio)
   });
-  const usdcWithRatio = calculateRatio(withdrawUsdc1, withdrawUsdc2);
+  const token0WithRatio = calculateRatio(withdrawToken0_1, withdrawToken0_2);
   csvData.push({
-    metric: "USDC Withdrawn",
-    [label1]: withdrawUsdc1.toFixed(2),
-    [label2]: withdrawUsdc2.toFixed(2),
-    ratio: usdcWithRatio,
-    vs_expected: calculateVsExpected(usdcWithRatio, capitalRatio)
+    metric: `${symbol0} Withdrawn`,
+    [label1]: withdrawToken0_1.toFixed(decimals0),
+    [label2]: withdrawToken0_2.toFixed(decimals0),
+    ratio: token0WithRatio,
+    vs_expected: calculateVsExpected(token0WithRatio, capitalRatio)
   });
-  const btcWithRatio = calculateRatio(withdrawCbbtc1, withdrawCbbtc2);
+  const token1WithRatio = calculateRatio(withdrawToken1_1, withdrawToken1_2);
   csvData.push({
-    metric: "cbBTC Withdrawn",
-    [label1]: withdrawCbbtc1.toFixed(6),
-    [label2]: withdrawCbbtc2.toFixed(6),
-    ratio: btcWithRatio,
-    vs_expected: calculateVsExpected(btcWithRatio, capitalRatio)
+    metric: `${symbol1} Withdrawn`,
+    [label1]: withdrawToken1_1.toFixed(decimals1),
+    [label2]: withdrawToken1_2.toFixed(decimals1),
+    ratio: token1WithRatio,
+    vs_expected: calculateVsExpected(token1WithRatio, capitalRatio)
   });
   
   // Net Changes
@@ -772,21 +787,21 @@ async function main() {
     ratio: "",
     vs_expected: ""
   });
-  const netUsdcRatio = calculateRatio(Math.abs(netUsdc1), Math.abs(netUsdc2));
+  const netToken0Ratio = calculateRatio(Math.abs(netToken0_1), Math.abs(netToken0_2));
   csvData.push({
-    metric: "Net USDC",
-    [label1]: netUsdc1.toFixed(2),
-    [label2]: netUsdc2.toFixed(2),
-    ratio: netUsdcRatio,
-    vs_expected: calculateVsExpected(netUsdcRatio, capitalRatio)
+    metric: `Net ${symbol0}`,
+    [label1]: netToken0_1.toFixed(decimals0),
+    [label2]: netToken0_2.toFixed(decimals0),
+    ratio: netToken0Ratio,
+    vs_expected: calculateVsExpected(netToken0Ratio, capitalRatio)
   });
-  const netBtcRatio = calculateRatio(Math.abs(netCbbtc1), Math.abs(netCbbtc2));
+  const netToken1Ratio = calculateRatio(Math.abs(netToken1_1), Math.abs(netToken1_2));
   csvData.push({
-    metric: "Net cbBTC",
-    [label1]: netCbbtc1.toFixed(6),
-    [label2]: netCbbtc2.toFixed(6),
-    ratio: netBtcRatio,
-    vs_expected: calculateVsExpected(netBtcRatio, capitalRatio)
+    metric: `Net ${symbol1}`,
+    [label1]: netToken1_1.toFixed(decimals1),
+    [label2]: netToken1_2.toFixed(decimals1),
+    ratio: netToken1Ratio,
+    vs_expected: calculateVsExpected(netToken1Ratio, capitalRatio)
   });
   
   // Rewards & Fees
@@ -887,11 +902,11 @@ async function main() {
     vs_expected: calculateVsExpected(profitPctRatio, 1.0)
   });
   
-  // Calculate APR
+  // Calculate APR (from the analysis when it has the apr column, else on avg deposit per position)
   const avgDepositPerPosition1 = positions1 > 0 ? depositValue1 / positions1 : 0;
   const avgDepositPerPosition2 = positions2 > 0 ? depositValue2 / positions2 : 0;
-  const apr1 = avgDepositPerPosition1 > 0 ? (profit1 / avgDepositPerPosition1) * (365 / operatingDays1) * 100 : 0;
-  const apr2 = avgDepositPerPosition2 > 0 ? (profit2 / avgDepositPerPosition2) * (365 / operatingDays2) * 100 : 0;
+  const apr1 = wallet1.apr ? parseFloat(wallet1.apr) : (avgDepositPerPosition1 > 0 ? (profit1 / avgDepositPerPosition1) * (365 / operatingDays1) * 100 : 0);
+  const apr2 = wallet2.apr ? parseFloat(wallet2.apr) : (avgDepositPerPosition2 > 0 ? (profit2 / avgDepositPerPosition2) * (365 / operatingDays2) * 100 : 0);
   
   // Annualized Returns
   csvData.push({
@@ -920,6 +935,38 @@ async function main() {
     vs_expected: "-"
   });
   
+  // Risk (from the wallet's equity curve; blank in analyses without one)
+  csvData.push({
+    metric: "RISK",
+    [label1]: "",
+    [label2]: "",
+    ratio: "",
+    vs_expected: ""
+  });
+  const riskMetrics = [
+    { metric: "Max Drawdown (%)", column: "max_drawdown_pct", decimals: 2 },
+    { metric: "Max Drawdown (USD)", column: "max_drawdown_usd", decimals: 2 },
+    { metric: "Max Drawdown Duration", column: "max_drawdown_seconds", decimals: 0 },
+    { metric: "Volatility (%, annualized)", column: "volatility_pct", decimals: 2 },
+    { metric: "Sharpe Ratio", column: "sharpe_ratio", decimals: 2 },
+    { metric: "Sortino Ratio", column: "sortino_ratio", decimals: 2 },
+    { metric: "Worst Position P&L (USD)", column: "worst_position_profit_usd", decimals: 2 },
+  ];
+  for (const risk of riskMetrics) {
+    const format = (wallet: any) => {
+      if (!wallet[risk.column]) return "N/A";
+      const value = parseFloat(wallet[risk.column]);
+      return risk.column === "max_drawdown_seconds" ? formatDuration(value / 86400) : value.toFixed(risk.decimals);
+    };
+    csvData.push({
+      metric: risk.metric,
+      [label1]: format(wallet1),
+      [label2]: format(wallet2),
+      ratio: "-",
+      vs_expected: "-"
+    });
+  }
+  
   // Write to CSV file
   const csvOutput = stringify(csvData, {
     header: true,
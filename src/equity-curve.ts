@@ -0,0 +1,292 @@
+/**
+ * Wallet equity curve
+ * Replays the priced actions against the pool swaps and values the wallet at every block, minute
+ * or hour (EQUITY_CURVE_RESOLUTION, default hour): open positions are marked to the last swap
+ * price from their liquidity and ticks, and a cash balance takes the withdrawals, fees and
+ * rewards and pays the deposits and gas. Cash starts at the smallest balance that funds every
+ * deposit (the wallet's peak net deployment), so equity starts there and only moves with P&L.
+ * Positions without a mint in the window are left out, as in analyze.ts. Recovered mints of
+ * pre-existing positions (before the window start) are carried in as the opening state, so the
+ * curve starts at the window start rather than at the oldest recovered mint.
+ * index.ts writes the curve to equity_curve_{label}.csv.
+ */
+
+import { PoolConfig, calculateBasePrice } from "./pools";
+import { SwapEvent } from "./price-lookup";
+import { getPositionAmounts } from "./position-math";
+import { BASE_BLOCK_TIME_SECONDS } from "./chain-constants";
+import { siblingOutputPath } from "./output-paths";
+import { isDeposit, isWithdrawal } from "./position-actions";
+
+export type EquityResolution = "block" | "minute" | "hour";
+
+export const EQUITY_RESOLUTIONS: EquityResolution[] = ["block", "minute", "hour"];
+
+export interface EquityRow {
+  timestamp: string;
+  block: number;
+  block_index: number;
+  token_id: string;
+  action: string;
+  tick_lower: string;
+  tick_upper: string;
+  liquidity: string;
+  amount0_dec: number;
+  amount1_dec: number;
+  fee0_dec: number;
+  fee1_dec: number;
+  token0_price_usd: number;
+  token1_price_usd: number;
+  amount0_usd: number;
+  amount1_usd: number;
+  AERO_usd: number;
+  gas_cost_usd: number | "";
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  block: number;
+  base_price: number | ""; // Base token price in quote units at the last swap, blank before the first one
+  open_positions: number;
+  lp_value_usd: number; // Open positions marked to the pool price
+  cash_usd: number; // Starting cash + withdrawals + fees + rewards - deposits - gas
+  fees_usd: number; // Cumulative
+  rewards_usd: number; // Cumulative AERO (USD at claim)
+  gas_usd: number; // Cumulative
+  equity_usd: number; // lp_value_usd + cash_usd
+}
+
+export const EQUITY_CURVE_COLUMNS: Array<keyof EquityPoint> = [
+  "timestamp",
+  "block",
+  "base_price",
+  "open_positions",
+  "lp_value_usd",
+  "cash_usd",
+  "fees_usd",
+  "rewards_usd",
+  "gas_usd",
+  "equity_usd",
+];
+
+export interface EquityCurve {
+  points: EquityPoint[];
+  starting_cash_usd: number;
+  hodl_valued: string[]; // Positions without liquidity or ticks, valued at their net token amounts
+}
+
+export interface EquityWindowEnd {
+  block: number;
+  timestamp: string;
+}
+
+interface OpenPosition {
+  ticks: [number, number] | null;
+  liquidity: bigint | null; // null once any change has no liquidity
+  amount0: number; // Net tokens deposited, for positions without liquidity
+  amount1: number;
+}
+
+const RESOLUTION_MS: Record<Exclude<EquityResolution, "block">, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+// Resolution from EQUITY_CURVE_RESOLUTION, or null with EQUITY_CURVE_RESOLUTION=off
+export function getEquityResolution(): EquityResolution | null {
+  const value = (process.env.EQUITY_CURVE_RESOLUTION || "hour").toLowerCase();
+  if (value === "off") {
+    return null;
+  }
+  if (!EQUITY_RESOLUTIONS.includes(value as EquityResolution)) {
+    throw new Error(`Unknown EQUITY_CURVE_RESOLUTION "${value}" (expected ${EQUITY_RESOLUTIONS.join(", ")} or off)`);
+  }
+  return value as EquityResolution;
+}
+
+// equity_curve file next to a transaction_details file (same label)
+export function equityCurvePath(transactionDetailsPath: string): string {
+  return siblingOutputPath(transactionDetailsPath, "equity_curve");
+}
+
+function feeUsd(row: EquityRow): number {
+  return row.fee0_dec * row.token0_price_usd + row.fee1_dec * row.token1_price_usd;
+}
+
+function gasUsd(row: EquityRow): number {
+  return typeof row.gas_cost_usd === "number" ? row.gas_cost_usd : 0;
+}
+
+function parseTicks(row: EquityRow): [number, number] | null {
+  const tickLower = parseInt(row.tick_lower);
+  const tickUpper = parseInt(row.tick_upper);
+  return isNaN(tickLower) || isNaN(tickUpper) || tickLower >= tickUpper ? null : [tickLower, tickUpper];
+}
+
+// Cash the wallet moves out of (positive) or into (negative) its LP positions with this row
+function netOutflow(row: EquityRow): number {
+  const value = row.amount0_usd + row.amount1_usd;
+  const flow = isDeposit(row.action) ? value : (isWithdrawal(row.action) ? -value : 0);
+  return flow - feeUsd(row) - row.AERO_usd + gasUsd(row);
+}
+
+// Sample points as [block, time]: every block with a swap or an action, or the start of each
+// minute/hour, from the first row in the window to the window end
+function samplePoints(
+  rows: EquityRow[],
+  swaps: SwapEvent[],
+  windowEnd: EquityWindowEnd,
+  resolution: EquityResolution
+): Array<[number, number]> {
+  const anchors = rows.map(r => ({ block: r.block, time: new Date(r.timestamp).getTime() }));
+  if (anchors.length === 0 || windowEnd.block > anchors[anchors.length - 1].block) {
+    anchors.push({ block: windowEnd.block, time: new Date(windowEnd.timestamp).getTime() });
+  }
+  const blockMs = BASE_BLOCK_TIME_SECONDS * 1000;
+  const start = anchors[0];
+  const end = anchors[anchors.length - 1];
+
+  if (resolution === "block") {
+    const blocks = new Set(anchors.map(a => a.block));
+    swaps.filter(s => s.blockNumber > start.block && s.blockNumber < end.block).forEach(s => blocks.add(s.blockNumber));
+    // Block times from the latest action at or before the block
+    let anchor = 0;
+    return [...blocks].sort((a, b) => a - b).map(block => {
+      while (anchor + 1 < anchors.length && anchors[anchor + 1].block <= block) anchor++;
+      return [block, anchors[anchor].time + (block - anchors[anchor].block) * blockMs];
+    });
+  }
+
+  const step = RESOLUTION_MS[resolution];
+  const points: Array<[number, number]> = [];
+  let anchor = 0;
+  for (let time = Math.floor(start.time / step) * step; time < end.time; time += step) {
+    // Block at the time from the latest action at or before it
+    while (anchor + 1 < anchors.length && anchors[anchor + 1].time <= time) anchor++;
+    const block = anchors[anchor].block + Math.floor((time - anchors[anchor].time) / blockMs);
+    points.push([Math.min(block, end.block), time]);
+  }
+  points.push([end.block, end.time]);
+  return points;
+}
+
+// rows must be priced transaction details; swaps sorted (see sortSwaps). quoteSwaps price the
+// quote token in USD for pools with a non-stable quote (null for stable quotes). Rows before
+// windowStartBlock only set up the opening state.
+export function buildEquityCurve(
+  pool: PoolConfig,
+  rows: EquityRow[],
+  swaps: SwapEvent[],
+  quotePool: PoolConfig | null,
+  quoteSwaps: SwapEvent[] | null,
+  windowStartBlock: number,
+  windowEnd: EquityWindowEnd,
+  resolution: EquityResolution
+): EquityCurve {
+  const minted = new Set(rows.filter(r => r.action === "mint").map(r => r.token_id));
+  const included = rows
+    .filter(r => !r.token_id || minted.has(r.token_id))
+    .sort((a, b) => a.block - b.block || a.block_index - b.block_index);
+  if (included.length === 0) {
+    return { points: [], starting_cash_usd: 0, hodl_valued: [] };
+  }
+
+  // Starting cash = peak cumulative net outflow, so the balance never goes negative
+  let cumulative = 0;
+  let startingCash = 0;
+  for (const row of included) {
+    cumulative += netOutflow(row);
+    startingCash = Math.max(startingCash, cumulative);
+  }
+
+  const positions = new Map<string, OpenPosition>();
+  const hodlValued = new Set<string>();
+  const points: EquityPoint[] = [];
+  let cash = startingCash;
+  let fees = 0;
+  let rewards = 0;
+  let gas = 0;
+  let rowIndex = 0;
+  let swapIndex = 0;
+  let quoteIndex = 0;
+  let lastSwap: SwapEvent | null = null;
+  let lastQuoteSwap: SwapEvent | null = null;
+  let rowPrices = { token0: 0, token1: 0 }; // USD prices of the latest row, until there is a swap
+
+  const windowRows = included.filter(r => r.block >= windowStartBlock);
+  for (const [block, time] of samplePoints(windowRows, swaps, windowEnd, resolution)) {
+    for (; rowIndex < included.length && included[rowIndex].block <= block; rowIndex++) {
+      const row = included[rowIndex];
+      cash -= netOutflow(row);
+      fees += feeUsd(row);
+      rewards += row.AERO_usd;
+      gas += gasUsd(row);
+      if (row.token0_price_usd > 0 && row.token1_price_usd > 0) {
+        rowPrices = { token0: row.token0_price_usd, token1: row.token1_price_usd };
+      }
+      if (!row.token_id) continue;
+
+      const liquidity = row.liquidity ? BigInt(row.liquidity.replace(/^-/, "")) : null;
+      if (isDeposit(row.action)) {
+        const position = positions.get(row.token_id) || { ticks: parseTicks(row), liquidity: 0n, amount0: 0, amount1: 0 };
+        position.liquidity = position.liquidity !== null && liquidity !== null ? position.liquidity + liquidity : null;
+        position.amount0 += row.amount0_dec;
+        position.amount1 += row.amount1_dec;
+        positions.set(row.token_id, position);
+      } else if (row.action === "burn") {
+        positions.delete(row.token_id);
+      } else if (row.action === "decreaseLiquidity" && positions.has(row.token_id)) {
+        const position = positions.get(row.token_id)!;
+        position.liquidity = position.liquidity !== null && liquidity !== null
+          ? (position.liquidity > liquidity ? position.liquidity - liquidity : 0n)
+          : null;
+        position.amount0 = Math.max(0, position.amount0 - row.amount0_dec);
+        position.amount1 = Math.max(0, position.amount1 - row.amount1_dec);
+      }
+    }
+    for (; swapIndex < swaps.length && swaps[swapIndex].blockNumber <= block; swapIndex++) {
+      lastSwap = swaps[swapIndex];
+    }
+    if (quoteSwaps) {
+      for (; quoteIndex < quoteSwaps.length && quoteSwaps[quoteIndex].blockNumber <= block; quoteIndex++) {
+        lastQuoteSwap = quoteSwaps[quoteIndex];
+      }
+    }
+
+    // USD prices from the pool swap (and the quote token's USD pool), else from the latest row
+    const basePrice = lastSwap ? calculateBasePrice(pool, lastSwap.sqrtPriceX96) : null;
+    const quoteUsd = quotePool ? (lastQuoteSwap ? calculateBasePrice(quotePool, lastQuoteSwap.sqrtPriceX96) : null) : 1;
+    let prices = rowPrices;
+    if (basePrice !== null && quoteUsd !== null) {
+      prices = pool.quoteToken === 0
+        ? { token0: quoteUsd, token1: basePrice * quoteUsd }
+        : { token0: basePrice * quoteUsd, token1: quoteUsd };
+    }
+
+    let lpValue = 0;
+    for (const [tokenId, position] of positions) {
+      let amounts = { amount0: position.amount0, amount1: position.amount1 };
+      if (lastSwap && position.ticks && position.liquidity !== null) {
+        amounts = getPositionAmounts(pool, lastSwap.sqrtPriceX96, position.ticks[0], position.ticks[1], position.liquidity);
+      } else {
+        hodlValued.add(tokenId);
+      }
+      lpValue += amounts.amount0 * prices.token0 + amounts.amount1 * prices.token1;
+    }
+
+    points.push({
+      timestamp: new Date(time).toISOString(),
+      block,
+      base_price: basePrice ?? "",
+      open_positions: positions.size,
+      lp_value_usd: lpValue,
+      cash_usd: cash,
+      fees_usd: fees,
+      rewards_usd: rewards,
+      gas_usd: gas,
+      equity_usd: lpValue + cash,
+    });
+  }
+
+  return { points, starting_cash_usd: startingCash, hodl_valued: [...hodlValued] };
+}
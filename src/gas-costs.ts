@@ -0,0 +1,84 @@
+/**
+ * Gas cost of LP transactions on Base
+ * Reads gasUsed, effectiveGasPrice and the OP-stack l1Fee (L1 data fee) from each transaction
+ * receipt. Receipts never change, so the fields are kept in cache/gas/receipts.json and only
+ * new transactions are requested on later runs. Set GAS_COSTS=off to skip gas accounting.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { RpcPool } from "./rpc";
+
+export interface GasCost {
+  gasUsed: bigint;
+  effectiveGasPrice: bigint; // wei per gas (L2 execution)
+  l1Fee: bigint; // wei, 0 for receipts without an l1Fee field
+  totalFee: bigint; // wei: gasUsed * effectiveGasPrice + l1Fee
+}
+
+export interface GasCostFetcher {
+  getGasCost(txHash: string): Promise<GasCost | null>;
+  save(): void;
+}
+
+interface CachedReceipt {
+  gasUsed: string;
+  effectiveGasPrice: string;
+  l1Fee: string;
+}
+
+export function isGasAccountingEnabled(): boolean {
+  return (process.env.GAS_COSTS || "").toLowerCase() !== "off";
+}
+
+function getGasCacheFile(): string {
+  return path.join(__dirname, "..", "cache", "gas", "receipts.json");
+}
+
+export function weiToEth(wei: bigint): number {
+  return Number(wei) / 1e18;
+}
+
+function toGasCost(receipt: CachedReceipt): GasCost {
+  const gasUsed = BigInt(receipt.gasUsed);
+  const effectiveGasPrice = BigInt(receipt.effectiveGasPrice);
+  const l1Fee = BigInt(receipt.l1Fee);
+  return { gasUsed, effectiveGasPrice, l1Fee, totalFee: gasUsed * effectiveGasPrice + l1Fee };
+}
+
+export function createGasCostFetcher(rpc: RpcPool): GasCostFetcher {
+  const cacheFile = getGasCacheFile();
+  const receipts: Record<string, CachedReceipt> = fs.existsSync(cacheFile)
+    ? JSON.parse(fs.readFileSync(cacheFile, "utf-8"))
+    : {};
+  let dirty = false;
+
+  return {
+    async getGasCost(txHash) {
+      const key = txHash.toLowerCase();
+      if (!receipts[key]) {
+        const receipt = await rpc.send("eth_getTransactionReceipt", [txHash]);
+        if (!receipt) {
+          return null;
+        }
+        receipts[key] = {
+          gasUsed: BigInt(receipt.gasUsed).toString(),
+          effectiveGasPrice: BigInt(receipt.effectiveGasPrice ?? receipt.gasPrice ?? 0).toString(),
+          l1Fee: BigInt(receipt.l1Fee ?? 0).toString(),
+        };
+        dirty = true;
+      }
+      return toGasCost(receipts[key]);
+    },
+
+    save() {
+      if (!dirty) return;
+      fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+      // Write to a temp file first so an interrupted run never leaves a truncated cache
+      const tmpFile = `${cacheFile}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(receipts), "utf-8");
+      fs.renameSync(tmpFile, cacheFile);
+      dirty = false;
+    },
+  };
+}
@@ -1,25 +1,108 @@
 import "dotenv/config";
-import { JsonRpcProvider, keccak256, toUtf8Bytes, Log } from "ethers";
+import { keccak256, toUtf8Bytes } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
-import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
-import axios from "axios";
+import {
+  CachedSwapLog,
+  isSwapCacheEnabled,
+  findMissingRanges,
+  readCachedLogs,
+  writeCacheSegment,
+} from "./swap-cache";
+import { SwapEvent, sortSwaps, findClosestSwapBefore } from "./price-lookup";
+import {
+  PriceSource,
+  PriceSourceType,
+  PRICE_SOURCE_TYPES,
+  createSwapPriceSource,
+  createTwapPriceSource,
+  createCsvPriceSource,
+  createChainlinkPriceSource,
+} from "./price-sources";
+import {
+  PoolConfig,
+  resolvePool,
+  getBaseToken,
+  basePriceColumn,
+  calculateBasePrice,
+} from "./pools";
+import {
+  AeroPriceChain,
+  AeroPriceQuote,
+  AeroPriceSource,
+  AeroPriceSourceType,
+  AERO_PRICE_SOURCE_TYPES,
+  createFileAeroSource,
+  createCoinGeckoAeroSource,
+  createOnchainAeroSource,
+  getAeroPrice,
+} from "./aero-prices";
+import { RewardAttribution, RewardAttributor, createRewardAttributor } from "./reward-attribution";
+import {
+  FailedActionRecord,
+  OutputColumn,
+  getResumeBufferBlocks,
+  readFailedActions,
+  selectFailedActions,
+  readTransactionRows,
+  mergeTransactionRows,
+} from "./resume";
+import { createRpcPool, getRpcUrls } from "./rpc";
+import { checkPositionAmounts } from "./position-math";
+import { STAKE_ACTIONS, WITHDRAW_ACTIONS, isDeposit, isWithdrawal } from "./position-actions";
+import {
+  RANGE_STATS_COLUMNS,
+  positionRangesPath,
+  getPositionLifetimes,
+  computeRangeStats,
+} from "./range-tracking";
+import {
+  MarkPoint,
+  OPEN_POSITION_COLUMNS,
+  openPositionsPath,
+  getMarkPoint,
+  markOpenPositions,
+} from "./mark-to-market";
+import {
+  DEFAULT_POSITION_MANAGER,
+  findPreExistingPositions,
+  recoverySource,
+  readHistoryMints,
+  createPositionHistoryFetcher,
+} from "./position-history";
+import { GasCost, createGasCostFetcher, isGasAccountingEnabled, weiToEth } from "./gas-costs";
+import {
+  EQUITY_CURVE_COLUMNS,
+  EquityResolution,
+  buildEquityCurve,
+  equityCurvePath,
+  getEquityResolution,
+} from "./equity-curve";
+import {
+  ACTIONS_SCHEMA,
+  EARNINGS_SCHEMA,
+  getValidationMode,
+  readValidatedCsv,
+  writeValidationReport,
+  formatIssue,
+} from "./input-validation";
 
 // Configuration
-const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
-const POOL_ADDRESS = "0x4e962BB3889Bf030368F56810A9c96B83CB3E778"; // USDC-cbBTC pool
-const TOKEN0_DECIMALS = 6; // USDC
-const TOKEN1_DECIMALS = 8; // cbBTC
-const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
+const POOL = resolvePool(); // Selected with POOL env var (default: USDC-cbBTC)
+const RESUME = process.env.RESUME === "true"; // Retry only failed_actions.csv and merge into existing transaction_details
+// Buffer to ensure we find swaps before/after edge actions (wider when retrying failures)
+const RESUME_BUFFER_BLOCKS = getResumeBufferBlocks(); // RESUME_BUFFER_BLOCKS (default 50000)
+const SWAP_BUFFER_BLOCKS = RESUME ? RESUME_BUFFER_BLOCKS : 5000;
+const PRICE_WINDOW_BLOCKS = 1800; // Swaps fetched per window for ETH prices of gas costs (1 hour of Base blocks)
+const REORG_SAFETY_BLOCKS = 100; // Only cache blocks at least this far behind the chain head
+const EQUITY_RESOLUTION = getEquityResolution(); // EQUITY_CURVE_RESOLUTION: block, minute, hour (default) or off
 
 // Swap event signature for Uniswap V3 (Aerodrome uses V3 style)
 const SWAP_V3_SIG = "Swap(address,address,int256,int256,uint160,uint128,int24)";
 const SWAP_TOPIC = keccak256(toUtf8Bytes(SWAP_V3_SIG));
 
-const Q96 = 2n ** 96n;
-
-const provider = new JsonRpcProvider(RPC_URL);
+const rpc = createRpcPool(getRpcUrls()); // RPC_URLS (or BASE_RPC_URL) with failover
 
 // Types
 interface ActionRow {
@@ -54,36 +137,50 @@ interface EarningsRow {
   [key: string]: any;
 }
 
-interface SwapEvent {
-  blockNumber: number;
-  transactionHash: string;
-  index: number;
-  sqrtPriceX96: bigint;
-}
-
 interface OutputRow {
   timestamp: string;
   timestamp_excel: string;
   tx_hash: string;
   block: number;
   block_index: number;
-  swap_block: number;
-  swap_index: number;
+  swap_block: number | "";
+  swap_index: number | "";
   swap_hash: string;
   token_id: string;
   action: string;
-  cbBTC_price: number;
+  recovered_from: string; // history_file or rpc for recovered mints of pre-existing positions
+  pool: string;
+  base_price: number; // Base token price in quote units, written as e.g. "cbBTC_price"
+  price_source: string;
   AERO_price: number;
+  AERO_price_source: string; // onchain, file, coingecko, coingecko_cache or fallback (1 AERO = 1 USD)
+  AERO_price_offset_seconds: number | ""; // Distance between the AERO price point and the action
+  AERO_swap_block: number | ""; // AERO pool swap used for AERO_price (onchain source only)
+  AERO_swap_hash: string;
   tick_lower: string;
   tick_upper: string;
+  liquidity: string; // Liquidity added or removed, as in the actions file (blank when not given)
   amount0_dec: number;
   amount1_dec: number;
+  expected_amount0_dec: number | ""; // From liquidity, ticks and the pool price (liquidity actions only)
+  expected_amount1_dec: number | "";
+  amount_check: string; // ok, mismatch or skipped (liquidity actions only)
   fee0_dec: number;
   fee1_dec: number;
   reward: number;
+  attribution_method: string; // direct, tx_hash, inpos or unattributed
+  attribution_confidence: string; // high, medium, low or none
+  token0_price_usd: number;
+  token1_price_usd: number;
   amount0_usd: number;
   amount1_usd: number;
   AERO_usd: number;
+  gas_used: string; // Of the whole transaction (blank with GAS_COSTS=off)
+  effective_gas_price_gwei: number | "";
+  l1_fee_eth: number | "";
+  eth_price_usd: number | "";
+  gas_cost_eth: number | ""; // Charged on the first row of each transaction, 0 on the others
+  gas_cost_usd: number | "";
 }
 
 // Helper functions
@@ -96,23 +193,12 @@ function parseSqrtPriceX96FromSwapData(hexData: string): bigint {
   return BigInt("0x" + slot2);
 }
 
-function priceToken1PerToken0FromSqrtPriceX96(sqrtPriceX96: bigint): number {
-  // Price = (sqrtP / 2^96)^2
-  const num = Number(sqrtPriceX96) / Number(Q96);
-  return num * num;
-}
-
-function adjustForDecimals(rawPrice: number, dec0: number, dec1: number): number {
-  return rawPrice * Math.pow(10, dec0 - dec1);
-}
-
-function calculateCbBtcPrice(sqrtPriceX96: bigint): number {
-  // Get raw price (token1 per token0)
-  const rawRatio = priceToken1PerToken0FromSqrtPriceX96(sqrtPriceX96);
-  // Adjust for decimals to get actual token1 per token0
-  const token1PerToken0 = adjustForDecimals(rawRatio, TOKEN0_DECIMALS, TOKEN1_DECIMALS);
-  // cbBTC price in USDC is the inverse (USDC per cbBTC)
-  return 1 / token1PerToken0;
+function parseTickFromSwapData(hexData: string): number {
+  // tick is the 5th slot (0-indexed: 4), an int24 sign-extended to 256 bits
+  const clean = hexData.startsWith("0x") ? hexData.slice(2) : hexData;
+  const SLOT_BYTES = 64;
+  const slot4 = BigInt("0x" + clean.slice(4 * SLOT_BYTES, 5 * SLOT_BYTES));
+  return Number(BigInt.asIntN(256, slot4));
 }
 
 function toExcelTimestamp(isoString: string): string {
@@ -129,175 +215,528 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function getSwapLogsInRange(fromBlock: number, toBlock: number, retries = 5): Promise<Log[]> {
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const logs = await provider.getLogs({
-        address: POOL_ADDRESS,
-        fromBlock,
-        toBlock,
-        topics: [SWAP_TOPIC],
-      });
-      return logs;
-    } catch (error: any) {
-      const isRateLimit = error?.message?.includes("rate limit") || 
-                          error?.code === -32016 ||
-                          error?.error?.code === -32016;
-      
-      if (isRateLimit && attempt < retries - 1) {
-        const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-        console.log(`    ⏳ Rate limit hit, waiting ${delay}ms before retry ${attempt + 1}/${retries - 1}...`);
-        await sleep(delay);
-        continue;
-      }
-      
-      throw error;
+async function fetchSwapLogsFromRpc(poolAddress: string, fromBlock: number, toBlock: number): Promise<CachedSwapLog[]> {
+  const logs = await rpc.getLogs({ address: poolAddress, topics: [SWAP_TOPIC] }, fromBlock, toBlock);
+  return logs.map(log => ({
+    blockNumber: Number(log.blockNumber),
+    transactionHash: log.transactionHash,
+    index: Number(log.index),
+    data: log.data,
+  }));
+}
+
+// Get swap logs from the on-disk cache, fetching only the missing gaps from the RPC.
+// Blocks newer than safeBlock are always fetched live and never cached.
+async function getSwapLogsInRange(poolAddress: string, fromBlock: number, toBlock: number, safeBlock: number): Promise<CachedSwapLog[]> {
+  if (!isSwapCacheEnabled() || fromBlock > safeBlock) {
+    const logs = await fetchSwapLogsFromRpc(poolAddress, fromBlock, toBlock);
+    await sleep(200); // Small delay after each RPC request to be respectful
+    return logs;
+  }
+  
+  const cacheableTo = Math.min(toBlock, safeBlock);
+  const gaps = findMissingRanges(poolAddress, fromBlock, cacheableTo);
+  
+  if (gaps.length === 0) {
+    console.log(`    ✓ Served from cache`);
+  }
+  
+  for (const [gapFrom, gapTo] of gaps) {
+    if (gapFrom !== fromBlock || gapTo !== cacheableTo) {
+      console.log(`    Fetching uncached gap ${gapFrom} to ${gapTo}...`);
     }
+    const logs = await fetchSwapLogsFromRpc(poolAddress, gapFrom, gapTo);
+    writeCacheSegment(poolAddress, gapFrom, gapTo, logs);
+    await sleep(200);
+  }
+  
+  const logs = readCachedLogs(poolAddress, fromBlock, cacheableTo);
+  
+  if (cacheableTo < toBlock) {
+    logs.push(...await fetchSwapLogsFromRpc(poolAddress, cacheableTo + 1, toBlock));
+    await sleep(200);
   }
   
-  throw new Error("Max retries exceeded");
+  return logs;
 }
 
+// Swap series already fetched in this run, by pool and block range
+const swapSeries = new Map<string, SwapEvent[]>();
+
 // Fetch all swaps in a block range and cache them
-async function fetchAllSwapsInRange(fromBlock: number, toBlock: number): Promise<SwapEvent[]> {
-  console.log(`\nFetching all swap events from block ${fromBlock} to ${toBlock}...`);
+async function fetchAllSwapsInRange(pool: PoolConfig, fromBlock: number, toBlock: number): Promise<SwapEvent[]> {
+  // Several price sources and checks may ask for the same series within one run
+  const seriesKey = `${pool.address.toLowerCase()}|${fromBlock}|${toBlock}`;
+  const fetched = swapSeries.get(seriesKey);
+  if (fetched) {
+    return fetched;
+  }
+  
+  console.log(`\nFetching all ${pool.name} swap events from block ${fromBlock} to ${toBlock}...`);
   
   const swaps: SwapEvent[] = [];
-  const CHUNK_SIZE = 10000; // Adjust based on your RPC limits
+  const CHUNK_SIZE = 10000; // Cache segment size, the RPC pool splits it further if a provider caps getLogs
+  
+  // Never cache blocks close to the chain head, they may still be reorged
+  const latestBlock = await rpc.getBlockNumber();
+  const safeBlock = latestBlock - REORG_SAFETY_BLOCKS;
+  toBlock = Math.min(toBlock, latestBlock);
   
   for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
     const end = Math.min(start + CHUNK_SIZE - 1, toBlock);
     console.log(`  Fetching blocks ${start} to ${end}...`);
     
-    const logs = await getSwapLogsInRange(start, end);
+    const logs = await getSwapLogsInRange(pool.address, start, end, safeBlock);
     
     for (const log of logs) {
       const sqrtPriceX96 = parseSqrtPriceX96FromSwapData(log.data);
       swaps.push({
-        blockNumber: Number(log.blockNumber),
+        blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        index: Number(log.index),
+        index: log.index,
         sqrtPriceX96,
+        tick: parseTickFromSwapData(log.data),
       });
     }
-    
-    // Small delay between chunks to be respectful to RPC
-    if (end < toBlock) {
-      await sleep(200);
-    }
   }
   
-  // Sort by block number and index for efficient searching
-  swaps.sort((a, b) => {
-    const blockDiff = a.blockNumber - b.blockNumber;
-    if (blockDiff !== 0) return blockDiff;
-    return a.index - b.index;
-  });
+  // Sort by block number and index for binary search lookups
+  sortSwaps(swaps);
+  swapSeries.set(seriesKey, swaps);
   
   console.log(`✓ Fetched and cached ${swaps.length} swap events\n`);
   return swaps;
 }
 
-// Find closest swap before using cached swaps (much faster!)
-function findClosestSwapBeforeFromCache(swaps: SwapEvent[], block: number, logIndex: number): SwapEvent | null {
-  let result: SwapEvent | null = null;
+// Build the base token price source selected with PRICE_SOURCE (default: nearest pool swap)
+async function selectPriceSource(minBlock: number, maxBlock: number): Promise<PriceSource> {
+  const type = (process.env.PRICE_SOURCE || "swap").toLowerCase() as PriceSourceType;
   
-  // Iterate through sorted swaps to find the closest one before our target
-  for (const swap of swaps) {
-    if (swap.blockNumber < block || (swap.blockNumber === block && swap.index < logIndex)) {
-      result = swap; // Keep updating with later swaps
-    } else {
-      break; // We've gone past our target, no need to continue
+  if (!PRICE_SOURCE_TYPES.includes(type)) {
+    throw new Error(`Unknown PRICE_SOURCE "${type}" (expected one of: ${PRICE_SOURCE_TYPES.join(", ")})`);
+  }
+  
+  if (type === "csv") {
+    const feedPath = process.env.PRICE_FEED_CSV;
+    if (!feedPath) {
+      throw new Error("PRICE_SOURCE=csv requires PRICE_FEED_CSV to point to a timestamp,price file");
+    }
+    return createCsvPriceSource(feedPath);
+  }
+  
+  if (type === "chainlink") {
+    const feedAddress = process.env.CHAINLINK_FEED_ADDRESS;
+    if (!feedAddress) {
+      throw new Error("PRICE_SOURCE=chainlink requires CHAINLINK_FEED_ADDRESS (aggregator contract on Base)");
     }
+    return createChainlinkPriceSource(rpc.getProvider(), feedAddress);
+  }
+  
+  const twapBlocks = parseInt(process.env.TWAP_BLOCKS || "300");
+  if (type === "twap" && !(twapBlocks > 0)) {
+    throw new Error(`Invalid TWAP_BLOCKS: ${process.env.TWAP_BLOCKS}`);
   }
   
-  return result;
+  // Fetch all swaps once (with some buffer for finding nearby swaps and filling the TWAP window)
+  const lookback = type === "twap" ? Math.max(SWAP_BUFFER_BLOCKS, twapBlocks) : SWAP_BUFFER_BLOCKS;
+  const swapsCache = await fetchAllSwapsInRange(
+    POOL,
+    Math.max(0, minBlock - lookback),
+    maxBlock + SWAP_BUFFER_BLOCKS
+  );
+  
+  const toPrice = (sqrtPriceX96: bigint) => calculateBasePrice(POOL, sqrtPriceX96);
+  return type === "twap"
+    ? createTwapPriceSource(swapsCache, toPrice, twapBlocks)
+    : createSwapPriceSource(swapsCache, toPrice);
 }
 
-// Find closest swap after using cached swaps (much faster!)
-function findClosestSwapAfterFromCache(swaps: SwapEvent[], block: number, logIndex: number): SwapEvent | null {
-  // Iterate through sorted swaps to find the first one after our target
-  for (const swap of swaps) {
-    if (swap.blockNumber > block || (swap.blockNumber === block && swap.index > logIndex)) {
-      return swap; // Return first match
+// Build the AERO/USD source chain from AERO_PRICE_SOURCES
+// (default: onchain if AERO_PRICE_POOL is set, file if AERO_PRICE_FILE is set, then coingecko)
+async function selectAeroPriceChain(
+  minBlock: number,
+  maxBlock: number,
+  minTimestamp: string,
+  maxTimestamp: string
+): Promise<AeroPriceChain> {
+  const defaultSources = [
+    process.env.AERO_PRICE_POOL ? "onchain" : "",
+    process.env.AERO_PRICE_FILE ? "file" : "",
+    "coingecko",
+  ].filter(s => s).join(",");
+  const types = (process.env.AERO_PRICE_SOURCES || defaultSources)
+    .split(",")
+    .map(t => t.trim().toLowerCase())
+    .filter(t => t.length > 0) as AeroPriceSourceType[];
+
+  const maxOffsetSeconds = parseInt(process.env.AERO_PRICE_MAX_OFFSET_SECONDS || "86400");
+  if (!(maxOffsetSeconds >= 0)) {
+    throw new Error(`Invalid AERO_PRICE_MAX_OFFSET_SECONDS: ${process.env.AERO_PRICE_MAX_OFFSET_SECONDS}`);
+  }
+
+  const sources: AeroPriceSource[] = [];
+  for (const type of types) {
+    if (!AERO_PRICE_SOURCE_TYPES.includes(type)) {
+      throw new Error(`Unknown AERO price source "${type}" (expected: ${AERO_PRICE_SOURCE_TYPES.join(", ")})`);
+    }
+
+    if (type === "file") {
+      const filePath = process.env.AERO_PRICE_FILE;
+      if (!filePath) {
+        throw new Error("AERO price source \"file\" requires AERO_PRICE_FILE (CSV or JSON price history)");
+      }
+      sources.push(createFileAeroSource(filePath));
+    } else if (type === "onchain") {
+      const poolName = process.env.AERO_PRICE_POOL;
+      if (!poolName) {
+        throw new Error("AERO price source \"onchain\" requires AERO_PRICE_POOL (registry pool with AERO as base token)");
+      }
+      const aeroPool = resolvePool(poolName);
+      if (getBaseToken(aeroPool).symbol.toUpperCase() !== "AERO") {
+        throw new Error(`AERO_PRICE_POOL ${aeroPool.name} does not price AERO (base token is ${getBaseToken(aeroPool).symbol})`);
+      }
+      sources.push(createOnchainAeroSource(
+        await createPoolSwapPriceSource(aeroPool, minBlock, maxBlock),
+        await selectQuoteUsdPriceSource(aeroPool, minBlock, maxBlock)
+      ));
+    } else if (type === "coingecko") {
+      const coinGecko = await createCoinGeckoAeroSource(minTimestamp, maxTimestamp);
+      if (coinGecko) {
+        sources.push(coinGecko);
+      }
     }
   }
+
+  return {
+    sources,
+    maxOffsetSeconds,
+    strict: process.env.AERO_PRICE_STRICT === "true",
+  };
+}
+
+// ETH/USD price for gas costs from ETH_PRICE_POOL (default WETH-USDC)
+function createEthUsdPriceSource(): PriceSource {
+  const ethPool = resolvePool(process.env.ETH_PRICE_POOL || "WETH-USDC");
+  const symbol = getBaseToken(ethPool).symbol.toUpperCase();
+  if (symbol !== "WETH" && symbol !== "ETH") {
+    throw new Error(`ETH_PRICE_POOL ${ethPool.name} does not price ETH (base token is ${getBaseToken(ethPool).symbol})`);
+  }
+  
+  const ethSource = createWindowedPoolPriceSource(ethPool);
+  const quoteUsdSource = ethPool.stable ? null : createWindowedPoolPriceSource(resolvePool(ethPool.quoteUsdPool));
   
-  return null;
+  return {
+    name: ethPool.name,
+    async getPrice(request) {
+      const eth = await ethSource.getPrice(request);
+      const quoteUsd = quoteUsdSource ? await quoteUsdSource.getPrice(request) : { price: 1, swap: null };
+      return eth && quoteUsd ? { price: eth.price * quoteUsd.price, swap: eth.swap } : null;
+    },
+  };
 }
 
-// Fetch AERO price data from CoinGecko API
-async function fetchAeroPrices(startTimestamp: string, endTimestamp: string): Promise<Map<number, number>> {
-  console.log("\nFetching AERO prices from CoinGecko...");
-  
-  const startDate = new Date(startTimestamp);
-  const endDate = new Date(endTimestamp);
-  
-  // Add 1 day buffer on each side
-  const fromUnix = Math.floor(startDate.getTime() / 1000) - 86400;
-  const toUnix = Math.floor(endDate.getTime() / 1000) + 86400;
-  
-  try {
-    // CoinGecko API endpoint for historical market data
-    // Using "aerodrome-finance" as the coin ID
-    const response = await axios.get(
-      `${COINGECKO_API_URL}/coins/aerodrome-finance/market_chart/range`,
-      {
-        params: {
-          vs_currency: "usd",
-          from: fromUnix,
-          to: toUnix,
-        },
+// Nearest-swap price source that only fetches the swaps around the requested blocks.
+// Busy pools like WETH-USDC have far too many swaps to load over a whole action range,
+// so each window of PRICE_WINDOW_BLOCKS is fetched with one window of margin on each side.
+function createWindowedPoolPriceSource(pool: PoolConfig): PriceSource {
+  const windows = new Map<number, Promise<PriceSource>>();
+  
+  return {
+    name: pool.name,
+    async getPrice(request) {
+      const window = Math.floor(request.block / PRICE_WINDOW_BLOCKS);
+      let source = windows.get(window);
+      if (!source) {
+        source = fetchAllSwapsInRange(
+          pool,
+          Math.max(0, (window - 1) * PRICE_WINDOW_BLOCKS),
+          (window + 2) * PRICE_WINDOW_BLOCKS - 1
+        ).then(swaps => createSwapPriceSource(swaps, (sqrtPriceX96) => calculateBasePrice(pool, sqrtPriceX96)));
+        windows.set(window, source);
       }
+      return (await source).getPrice(request);
+    },
+  };
+}
+
+// Price source for the quote token in USD, or null when the quote token is a stablecoin
+async function selectQuoteUsdPriceSource(pool: PoolConfig, minBlock: number, maxBlock: number): Promise<PriceSource | null> {
+  if (pool.stable) {
+    return null;
+  }
+  
+  return createPoolSwapPriceSource(resolvePool(pool.quoteUsdPool), minBlock, maxBlock);
+}
+
+// Nearest-swap price source for a pool's base token, in its quote token
+async function createPoolSwapPriceSource(pool: PoolConfig, minBlock: number, maxBlock: number): Promise<PriceSource> {
+  const swaps = await fetchAllSwapsInRange(
+    pool,
+    Math.max(0, minBlock - SWAP_BUFFER_BLOCKS),
+    maxBlock + SWAP_BUFFER_BLOCKS
+  );
+  
+  return createSwapPriceSource(swaps, (sqrtPriceX96) => calculateBasePrice(pool, sqrtPriceX96));
+}
+
+// Price sources and pool swaps for one block range of actions
+interface PricingContext {
+  priceSource: PriceSource;
+  quoteUsdPriceSource: PriceSource | null;
+  aeroPriceChain: AeroPriceChain;
+  ethUsdPriceSource: PriceSource | null; // null with GAS_COSTS=off
+  poolSwaps: SwapEvent[]; // Pool price and tick, fetched up to swapsToBlock + buffer
+}
+
+async function createPricingContext(
+  minBlock: number,
+  maxBlock: number,
+  minTimestamp: string,
+  maxTimestamp: string,
+  swapsToBlock: number = maxBlock
+): Promise<PricingContext> {
+  return {
+    priceSource: await selectPriceSource(minBlock, maxBlock),
+    quoteUsdPriceSource: await selectQuoteUsdPriceSource(POOL, minBlock, maxBlock),
+    poolSwaps: await fetchAllSwapsInRange(
+      POOL,
+      Math.max(0, minBlock - SWAP_BUFFER_BLOCKS),
+      swapsToBlock + SWAP_BUFFER_BLOCKS
+    ),
+    aeroPriceChain: await selectAeroPriceChain(minBlock, maxBlock, minTimestamp, maxTimestamp),
+    ethUsdPriceSource: isGasAccountingEnabled() ? createEthUsdPriceSource() : null,
+  };
+}
+
+// Mints and top-ups of pre-existing positions (changed or burned in the window, minted before it) from
+// POSITION_HISTORY_FILE, then from the position manager logs with POSITION_HISTORY_RPC=true
+async function recoverPreExistingMints(actions: ActionRow[]): Promise<ActionRow[]> {
+  const positions = findPreExistingPositions(actions);
+  const historyFile = process.env.POSITION_HISTORY_FILE;
+  const useRpc = process.env.POSITION_HISTORY_RPC === "true";
+  
+  if (positions.size === 0) {
+    return [];
+  }
+  if (!historyFile && !useRpc) {
+    console.log(`${positions.size} pre-existing positions have no mint in the actions (set POSITION_HISTORY_FILE or POSITION_HISTORY_RPC=true to recover them)`);
+    return [];
+  }
+  
+  console.log(`\nRecovering mint history for ${positions.size} pre-existing positions...`);
+  let recovered: ActionRow[] = [];
+  const hasMint = (tokenId: string) => recovered.some(a => a.token_id === tokenId && a.action === "mint");
+  
+  if (historyFile) {
+    if (!fs.existsSync(historyFile)) {
+      throw new Error(`POSITION_HISTORY_FILE not found: ${historyFile}`);
+    }
+    const fromFile = readHistoryMints(historyFile, positions);
+    recovered.push(...fromFile);
+    console.log(`  ✓ ${new Set(fromFile.map(a => a.token_id)).size} positions found in ${historyFile}`);
+  }
+  
+  const notInFile = [...positions.keys()].filter(tokenId => !hasMint(tokenId));
+  if (useRpc && notInFile.length > 0) {
+    const fetcher = createPositionHistoryFetcher(
+      rpc,
+      POOL,
+      process.env.POSITION_MANAGER_ADDRESS || DEFAULT_POSITION_MANAGER,
+      parseInt(process.env.POSITION_HISTORY_FROM_BLOCK || "0")
     );
     
-    // Response format: { prices: [[timestamp_ms, price], ...] }
-    const prices = response.data.prices as [number, number][];
-    
-    // Create a map of timestamp (seconds) -> price
-    const priceMap = new Map<number, number>();
-    
-    for (const [timestampMs, price] of prices) {
-      const timestampSec = Math.floor(timestampMs / 1000);
-      priceMap.set(timestampSec, price);
+    for (const tokenId of notInFile) {
+      const result = await fetcher.fetchMints(tokenId, positions.get(tokenId)!);
+      if (typeof result === "string") {
+        console.log(`  ⚠ ${result}`);
+      } else {
+        // The RPC history is complete, replacing any top-ups found in the file
+        recovered = [...recovered.filter(a => a.token_id !== result[0].token_id), ...result];
+        console.log(`  ✓ Token ${tokenId}: minted at block ${result[0].block_number}` +
+          (result.length > 1 ? ` (+${result.length - 1} liquidity increases)` : ""));
+      }
     }
-    
-    console.log(`✓ Fetched ${priceMap.size} AERO price points\n`);
-    return priceMap;
-  } catch (error: any) {
-    console.error("Failed to fetch AERO prices from CoinGecko:", error.message);
-    console.log("⚠️  Falling back to 1 AERO = 1 USD\n");
-    return new Map<number, number>();
   }
+  
+  const stillMissing = [...positions.keys()].filter(tokenId => !hasMint(tokenId));
+  if (stillMissing.length > 0) {
+    console.log(`⚠ ${stillMissing.length} positions stay pre-existing: ${stillMissing.join(", ")}`);
+  }
+  
+  // Top-ups without the mint they belong to would still leave the position incomplete
+  return recovered.filter(a => hasMint(a.token_id));
 }
 
-// Find closest AERO price for a given timestamp
-function getAeroPrice(priceMap: Map<number, number>, timestamp: string): number {
-  if (priceMap.size === 0) {
-    return 1.0; // Fallback
+// Write unmatched_earnings.csv / unmatched_actions.csv and summarize AERO that could not be attributed
+function writeUnmatchedReports(attributor: RewardAttributor, outputDir: string): void {
+  const unmatchedEarnings = attributor.getUnmatchedEarnings();
+  const unmatchedActions = attributor.getUnmatchedActions();
+  
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+  
+  const earningsPath = path.join(outputDir, "unmatched_earnings.csv");
+  const actionsPath = path.join(outputDir, "unmatched_actions.csv");
+  
+  // Always written (header only when clean) so a rerun never leaves a stale report behind
+  fs.writeFileSync(earningsPath, stringify(
+    unmatchedEarnings.map((u) => ({
+      line: u.line,
+      timestamp: u.earning.timestamp,
+      action: u.earning.action,
+      token_id: u.earning.token_id,
+      tx_hash: u.earning.tx_hash || "",
+      log_index: u.earning.log_index ?? "",
+      reward: u.earning.reward,
+      reason: u.reason,
+    })),
+    { header: true, columns: ["line", "timestamp", "action", "token_id", "tx_hash", "log_index", "reward", "reason"] }
+  ), "utf-8");
+  
+  fs.writeFileSync(actionsPath, stringify(
+    unmatchedActions.map((u) => ({
+      timestamp: u.action.timestamp,
+      block: u.action.block_number,
+      tx_hash: u.action.tx_hash,
+      log_index: u.action.log_index,
+      action: u.action.action,
+      token_id: u.action.token_id,
+      reward: u.reward,
+      reason: u.reason,
+    })),
+    { header: true, columns: ["timestamp", "block", "tx_hash", "log_index", "action", "token_id", "reward", "reason"] }
+  ), "utf-8");
+  
+  const duplicates = unmatchedEarnings.filter(u => u.reason.startsWith("duplicate_of_line_"));
+  const orphans = unmatchedEarnings.filter(u => !u.reason.startsWith("duplicate_of_line_"));
+  const orphanAero = orphans.reduce((sum, u) => sum + u.earning.reward, 0);
+  const unattributed = unmatchedActions.filter(u => u.reason === "token_id_unattributed");
+  const unattributedAero = unattributed.reduce((sum, u) => sum + u.reward, 0);
+  const missingEarnings = unmatchedActions.length - unattributed.length;
+  
+  if (duplicates.length > 0) {
+    console.log(`⚠ Ignored ${duplicates.length} duplicate earnings rows`);
+  }
+  if (orphans.length > 0) {
+    console.log(`⚠ ${orphans.length} earnings rows (${orphanAero.toFixed(4)} AERO) did not match any processed action`);
   }
+  if (unattributed.length > 0) {
+    console.log(`⚠ ${unattributed.length} gauge_getReward rows (${unattributedAero.toFixed(4)} AERO) could not be attributed to a position`);
+  }
+  if (missingEarnings > 0) {
+    console.log(`⚠ ${missingEarnings} actions have no earnings row (reward 0)`);
+  }
+  if (unmatchedEarnings.length + unmatchedActions.length > 0) {
+    console.log(`  Unattributed AERO total: ${(orphanAero + unattributedAero).toFixed(4)}`);
+    console.log(`  Unmatched records logged to: ${earningsPath}, ${actionsPath}`);
+  }
+}
+
+// Write position_ranges next to the transaction details: time in range and range exits per minted position
+function writePositionRanges(actions: ActionRow[], swaps: SwapEvent[], windowEndBlock: number, outputPath: string): void {
+  const rangesPath = positionRangesPath(outputPath);
+  const stats = getPositionLifetimes(actions, windowEndBlock).map(lifetime => computeRangeStats(swaps, lifetime));
   
-  const targetUnix = Math.floor(new Date(timestamp).getTime() / 1000);
+  fs.writeFileSync(rangesPath, stringify(stats, {
+    header: true,
+    columns: RANGE_STATS_COLUMNS,
+  }), "utf-8");
   
-  // Find the closest price point
-  let closestTime = 0;
-  let closestPrice = 1.0;
-  let minDiff = Infinity;
+  const tracked = stats.filter(s => s.seconds_tracked > 0);
+  const inRange = tracked.reduce((sum, s) => sum + s.seconds_in_range, 0);
+  const total = tracked.reduce((sum, s) => sum + s.seconds_tracked, 0);
+  console.log(`✓ Range tracking for ${stats.length} positions written to: ${rangesPath}`);
+  if (total > 0) {
+    console.log(`  Time in range: ${(inRange / total * 100).toFixed(1)}%, range exits: ${stats.reduce((sum, s) => sum + s.range_exits, 0)}`);
+  }
+  if (tracked.length < stats.length) {
+    console.log(`⚠ ${stats.length - tracked.length} positions have no pool tick in the swap window`);
+  }
+}
+
+// Write open_positions next to the transaction details: positions without a burn valued at the window end
+async function writeOpenPositionMarks(
+  actions: ActionRow[],
+  swaps: SwapEvent[],
+  mark: MarkPoint,
+  minBlock: number,
+  outputPath: string
+): Promise<void> {
+  const marksPath = openPositionsPath(outputPath);
+  const markSwap = findClosestSwapBefore(swaps, mark.block, Number.MAX_SAFE_INTEGER);
+  let marks: ReturnType<typeof markOpenPositions> = { marks: [], unpriced: [] };
   
-  for (const [time, price] of priceMap) {
-    const diff = Math.abs(time - targetUnix);
-    if (diff < minDiff) {
-      minDiff = diff;
-      closestTime = time;
-      closestPrice = price;
+  if (markSwap) {
+    let quoteUsdPrice = 1;
+    if (!POOL.stable) {
+      const quotePool = resolvePool(POOL.quoteUsdPool);
+      const quoteSwaps = await fetchAllSwapsInRange(
+        quotePool,
+        Math.max(0, minBlock - SWAP_BUFFER_BLOCKS),
+        mark.block + SWAP_BUFFER_BLOCKS
+      );
+      const quoteSwap = findClosestSwapBefore(quoteSwaps, mark.block, Number.MAX_SAFE_INTEGER);
+      quoteUsdPrice = quoteSwap ? calculateBasePrice(quotePool, quoteSwap.sqrtPriceX96) : NaN;
+    }
+    
+    if (isNaN(quoteUsdPrice)) {
+      console.log(`⚠ No ${POOL.quoteUsdPool} swap before block ${mark.block}, open positions not marked`);
+    } else {
+      marks = markOpenPositions(POOL, actions, mark, markSwap, quoteUsdPrice);
     }
+  } else {
+    console.log(`⚠ No ${POOL.name} swap before block ${mark.block}, open positions not marked`);
+  }
+  
+  // Always written (header only when nothing is open) so a rerun never leaves stale marks behind
+  fs.writeFileSync(marksPath, stringify(marks.marks, {
+    header: true,
+    columns: OPEN_POSITION_COLUMNS,
+  }), "utf-8");
+  
+  if (marks.marks.length > 0) {
+    const value = marks.marks.reduce((sum, m) => sum + m.value_usd, 0);
+    console.log(`✓ Marked ${marks.marks.length} open positions at block ${mark.block} ($${value.toFixed(2)}): ${marksPath}`);
+  }
+  if (marks.unpriced.length > 0) {
+    console.log(`⚠ ${marks.unpriced.length} open positions have no liquidity, ticks or closing_state amounts and were not marked: ${marks.unpriced.join(", ")}`);
   }
+}
+
+// Write equity_curve next to the transaction details: wallet value over time at the chosen resolution
+async function writeEquityCurve(
+  rows: OutputRow[],
+  swaps: SwapEvent[],
+  windowEnd: MarkPoint,
+  minBlock: number,
+  resolution: EquityResolution,
+  outputPath: string
+): Promise<void> {
+  const curvePath = equityCurvePath(outputPath);
+  const quotePool = POOL.stable ? null : resolvePool(POOL.quoteUsdPool);
+  const quoteSwaps = quotePool
+    ? await fetchAllSwapsInRange(quotePool, Math.max(0, minBlock - SWAP_BUFFER_BLOCKS), windowEnd.block + SWAP_BUFFER_BLOCKS)
+    : null;
+  const curve = buildEquityCurve(POOL, rows, swaps, quotePool, quoteSwaps, minBlock, windowEnd, resolution);
+  
+  fs.writeFileSync(curvePath, stringify(curve.points, {
+    header: true,
+    columns: EQUITY_CURVE_COLUMNS.map(key => key === "base_price" ? { key, header: basePriceColumn(POOL) } : key),
+  }), "utf-8");
   
-  return closestPrice;
+  if (curve.points.length > 0) {
+    const last = curve.points[curve.points.length - 1];
+    console.log(`✓ Equity curve (${curve.points.length} points per ${resolution}) written to: ${curvePath}`);
+    console.log(`  Starting cash: $${curve.starting_cash_usd.toFixed(2)}, final equity: $${last.equity_usd.toFixed(2)}`);
+  }
+  if (curve.hodl_valued.length > 0) {
+    console.log(`⚠ ${curve.hodl_valued.length} positions have no liquidity or ticks and are valued at their net token amounts: ${curve.hodl_valued.join(", ")}`);
+  }
 }
 
 async function main() {
-  console.log("LP Returns Analysis - Aerodrome USDC-cbBTC Pool");
+  console.log(`LP Returns Analysis - Aerodrome ${POOL.name} Pool`);
   console.log("=".repeat(60));
   
   // Read input files from command line or default locations
@@ -419,171 +858,319 @@ async function main() {
   }
   
   console.log("\nReading input files...");
-  const actionsContent = fs.readFileSync(actionsPath, "utf-8");
-  const earningsContent = fs.readFileSync(earningsPath, "utf-8");
-  
-  const actions: ActionRow[] = parse(actionsContent, {
-    columns: true,
-    skip_empty_lines: true,
-    cast: (value, context) => {
-      if (context.column === "block_number" || context.column === "tx_index" || context.column === "log_index") {
-        return parseInt(value);
-      }
-      if (context.column === "amount0_dec" || context.column === "amount1_dec" || 
-          context.column === "fee0_dec" || context.column === "fee1_dec") {
-        return parseFloat(value) || 0;
-      }
-      return value;
-    }
-  });
+  const validationMode = getValidationMode();
+  const actionsResult = readValidatedCsv(actionsPath, ACTIONS_SCHEMA);
+  const earningsResult = readValidatedCsv(earningsPath, EARNINGS_SCHEMA);
+  const validationIssues = [...actionsResult.issues, ...earningsResult.issues];
+  const validationReportPath = path.join(path.dirname(outputPath), "input_validation_errors.csv");
   
-  const earnings: EarningsRow[] = parse(earningsContent, {
-    columns: true,
-    skip_empty_lines: true,
-    cast: (value, context) => {
-      if (context.column === "reward" || context.column === "inpos0" || context.column === "inpos1") {
-        return parseFloat(value) || 0;
-      }
-      return value;
-    }
-  });
-  
-  // Create a map of earnings by timestamp + action + token_id for easy lookup
-  const earningsMap = new Map<string, number>();
-  const earningsFullMap = new Map<string, EarningsRow>();
-  
-  earnings.forEach((row) => {
-    const key = `${row.timestamp}|${row.action}|${row.token_id}`;
-    earningsMap.set(key, row.reward);
-    earningsFullMap.set(key, row);
-  });
-  
-  // For gauge_getReward without token_id, we need to match based on active position
-  // Create a mapping from timestamp to active positions (tracked by inpos amounts)
-  const getRewardByTimestamp = new Map<string, EarningsRow>();
-  earnings.forEach((row) => {
-    if (row.action === "gauge_getReward" && !row.token_id) {
-      getRewardByTimestamp.set(row.timestamp, row);
-    }
-  });
-  
-  // Build a position tracker: token_id -> recent mint amounts to match against inpos
-  const positionAmounts = new Map<string, { amount0: number; amount1: number; timestamp: string }>();
-  actions.forEach((action) => {
-    if (action.action === "mint" && action.token_id) {
-      const existing = positionAmounts.get(action.token_id);
-      if (!existing || action.timestamp > existing.timestamp) {
-        positionAmounts.set(action.token_id, {
-          amount0: action.amount0_dec,
-          amount1: action.amount1_dec,
-          timestamp: action.timestamp
-        });
+  if (validationIssues.length > 0) {
+    if (!fs.existsSync(path.dirname(outputPath))) {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    }
+    writeValidationReport(validationIssues, validationReportPath);
+    
+    const fatal = actionsResult.fatal || earningsResult.fatal || validationMode === "fail";
+    const log = fatal ? console.error : console.log;
+    log(`${fatal ? "Error" : "⚠"}: ${validationIssues.length} input validation issues`);
+    validationIssues.slice(0, 10).forEach(issue => log(`  ${formatIssue(issue)}`));
+    if (validationIssues.length > 10) {
+      log(`  ... and ${validationIssues.length - 10} more`);
+    }
+    log(`  Full report: ${validationReportPath}`);
+    
+    if (fatal) {
+      if (actionsResult.fatal || earningsResult.fatal) {
+        console.error("Missing columns cannot be skipped, fix the file header");
+      } else {
+        console.error("Fix the rows above, or set INPUT_VALIDATION=skip to drop them and continue");
       }
+      process.exit(1);
     }
-  });
+    
+    console.log(`⚠ Skipping ${actionsResult.skippedRows} action rows and ${earningsResult.skippedRows} earnings rows (INPUT_VALIDATION=skip)`);
+  } else if (fs.existsSync(validationReportPath)) {
+    fs.unlinkSync(validationReportPath);
+  }
+  
+  const actions = actionsResult.rows as ActionRow[];
+  const earnings = earningsResult.rows as EarningsRow[];
+  
+  // Rewards are matched by tx_hash + log_index, with timestamp and inpos fallbacks for gauge_getReward
+  const rewardAttributor = createRewardAttributor(actions, earnings);
   
   console.log(`Loaded ${actions.length} actions`);
   console.log(`Loaded ${earnings.length} earnings records`);
   
   // Filter to only the actions we care about (excluding closing_state)
-  const relevantActions = ["mint", "burn", "collect", "gauge_getReward"];
-  const filteredActions = actions.filter((action) => 
+  const relevantActions = ["mint", "increaseLiquidity", ...WITHDRAW_ACTIONS, "collect", ...STAKE_ACTIONS, "gauge_getReward"];
+  const relevantRows = actions.filter((action) => 
     relevantActions.includes(action.action) && action.action !== "closing_state"
   );
   
+  const outputColumns: OutputColumn[] = [
+    "timestamp",
+    "timestamp_excel",
+    "tx_hash",
+    "block",
+    "block_index",
+    "swap_block",
+    "swap_index",
+    "swap_hash",
+    "token_id",
+    "action",
+    "recovered_from",
+    "pool",
+    { key: "base_price", header: basePriceColumn(POOL) },
+    "price_source",
+    "AERO_price",
+    "AERO_price_source",
+    "AERO_price_offset_seconds",
+    "AERO_swap_block",
+    "AERO_swap_hash",
+    "tick_lower",
+    "tick_upper",
+    "liquidity",
+    "amount0_dec",
+    "amount1_dec",
+    "expected_amount0_dec",
+    "expected_amount1_dec",
+    "amount_check",
+    "fee0_dec",
+    "fee1_dec",
+    "reward",
+    "attribution_method",
+    "attribution_confidence",
+    "token0_price_usd",
+    "token1_price_usd",
+    "amount0_usd",
+    "amount1_usd",
+    "AERO_usd",
+    "gas_used",
+    "effective_gas_price_gwei",
+    "l1_fee_eth",
+    "eth_price_usd",
+    "gas_cost_eth",
+    "gas_cost_usd",
+  ];
+  
+  // Recovered mints are priced like the other actions (also when resuming, in case they failed)
+  const recoveredActions = await recoverPreExistingMints(relevantRows);
+  const candidateActions = recoveredActions.length > 0
+    ? [...recoveredActions, ...relevantRows].sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index)
+    : relevantRows;
+  
+  // Resume mode: retry only the actions listed in failed_actions.csv
+  const failedPath = path.join(path.dirname(outputPath), "failed_actions.csv");
+  let filteredActions = candidateActions;
+  let existingRows: Record<string, string>[] = [];
+  let unresolvedFailures: FailedActionRecord[] = [];
+  
+  if (RESUME) {
+    if (!fs.existsSync(outputPath)) {
+      console.error(`Error: RESUME=true needs an existing ${outputPath}`);
+      process.exit(1);
+    }
+    
+    const failedToRetry = readFailedActions(failedPath);
+    if (failedToRetry.length === 0) {
+      console.log(`✓ No failed actions to retry in ${path.dirname(outputPath)}`);
+      return;
+    }
+    
+    const selection = selectFailedActions(candidateActions, failedToRetry);
+    filteredActions = selection.matched;
+    unresolvedFailures = selection.missing;
+    existingRows = readTransactionRows(outputPath, outputColumns);
+    
+    console.log(`Resuming: ${existingRows.length} rows in ${outputPath}, retrying ${filteredActions.length} failed actions`);
+    console.log(`Swap window widened to ±${SWAP_BUFFER_BLOCKS} blocks`);
+    if (unresolvedFailures.length > 0) {
+      console.log(`⚠ ${unresolvedFailures.length} failed actions are no longer in the actions file and are kept as-is`);
+    }
+  }
+  
   console.log(`Processing ${filteredActions.length} relevant actions...`);
   
   // Determine block range for swap fetching and timestamp range for AERO prices
+  // Recovered mints can be far older than the window and get their own price sources below
+  const windowActions = filteredActions.some(a => !recoverySource(a))
+    ? filteredActions.filter(a => !recoverySource(a))
+    : filteredActions;
   let minBlock = Infinity;
   let maxBlock = -Infinity;
-  let minTimestamp = filteredActions[0]?.timestamp || "";
-  let maxTimestamp = filteredActions[0]?.timestamp || "";
+  let minTimestamp = windowActions[0]?.timestamp || "";
+  let maxTimestamp = windowActions[0]?.timestamp || "";
   
-  for (const action of filteredActions) {
+  for (const action of windowActions) {
     if (action.block_number < minBlock) minBlock = action.block_number;
     if (action.block_number > maxBlock) maxBlock = action.block_number;
     if (action.timestamp < minTimestamp) minTimestamp = action.timestamp;
     if (action.timestamp > maxTimestamp) maxTimestamp = action.timestamp;
   }
   
-  // Fetch all swaps once (with some buffer for finding nearby swaps)
-  const BUFFER = 5000; // Buffer to ensure we find swaps before/after edge actions
-  const swapsCache = await fetchAllSwapsInRange(
-    Math.max(0, minBlock - BUFFER),
-    maxBlock + BUFFER
-  );
+  // Open positions are valued and range-tracked up to the end of the observation window
+  // (the latest closing_state row, else the last action); not needed when resuming
+  const markPoint = RESUME ? null : getMarkPoint(actions);
+  const windowEndBlock = Math.max(maxBlock, markPoint?.block ?? maxBlock);
+  
+  // Pool swaps also give the price and tick around each action, to cross-check liquidity
+  // amounts and track time in range
+  const amountCheckTolerance = parseFloat(process.env.AMOUNT_CHECK_TOLERANCE || "0.01");
+  const mainContext = await createPricingContext(minBlock, maxBlock, minTimestamp, maxTimestamp, windowEndBlock);
+  const { priceSource, aeroPriceChain, poolSwaps } = mainContext;
+  const noPriceReason = priceSource.name === "swap" ? "no_swap_found" : "no_price_found";
+  console.log(`Using ${getBaseToken(POOL).symbol} price source: ${priceSource.name}`);
+  console.log(`Using AERO price sources: ${aeroPriceChain.sources.map(s => s.name).join(" -> ") || "none"}`);
+  if (aeroPriceChain.sources.length === 0 && !aeroPriceChain.strict) {
+    console.log("⚠️  No AERO price source available, rewards will be valued at 1 AERO = 1 USD");
+  }
   
-  // Fetch AERO prices from CoinGecko
-  const aeroPriceMap = await fetchAeroPrices(minTimestamp, maxTimestamp);
+  // Recovered mints before the main swap window are priced per cluster of nearby blocks
+  const actionContexts = new Map<ActionRow, PricingContext>();
+  const outsideWindow = filteredActions.filter(a => recoverySource(a) && a.block_number < minBlock - SWAP_BUFFER_BLOCKS);
+  for (let i = 0; i < outsideWindow.length;) {
+    let j = i + 1;
+    while (j < outsideWindow.length && outsideWindow[j].block_number - outsideWindow[j - 1].block_number <= SWAP_BUFFER_BLOCKS) {
+      j++;
+    }
+    const cluster = outsideWindow.slice(i, j);
+    const context = await createPricingContext(
+      cluster[0].block_number,
+      cluster[cluster.length - 1].block_number,
+      cluster[0].timestamp,
+      cluster[cluster.length - 1].timestamp
+    );
+    cluster.forEach(action => actionContexts.set(action, context));
+    i = j;
+  }
   
-  console.log(`Processing actions with cached swaps...\n`);
+  console.log(`Processing actions...\n`);
   
   const outputRows: OutputRow[] = [];
   const failed: Array<{ action: ActionRow; reason: string }> = [];
+  const aeroSourceCounts = new Map<string, number>();
+  const attributionCounts = new Map<string, number>();
+  let amountMismatches = 0;
+  
+  // increaseLiquidity / decreaseLiquidity rows without ticks take them from the position's mint
+  const mintTicks = new Map<string, { tick_lower: string; tick_upper: string }>();
+  for (const action of candidateActions) {
+    if (action.action === "mint" && action.token_id && !mintTicks.has(action.token_id)) {
+      mintTicks.set(action.token_id, { tick_lower: action.tick_lower, tick_upper: action.tick_upper });
+    }
+  }
+  
+  // Gas is paid once per transaction: only the first row of each tx_hash is charged
+  const gasFetcher = isGasAccountingEnabled() ? createGasCostFetcher(rpc) : null;
+  const chargedTxs = new Set(
+    existingRows.filter(row => Number(row.gas_cost_eth) > 0).map(row => row.tx_hash.toLowerCase())
+  );
+  let missingReceiptCount = 0;
   
   for (let i = 0; i < filteredActions.length; i++) {
     const action = filteredActions[i];
     
     // Log progress every 100 actions instead of every action
+    // and keep the receipts fetched so far, so an aborted run doesn't request them again
     if (i % 100 === 0 || i === filteredActions.length - 1) {
       console.log(`[${i + 1}/${filteredActions.length}] Processing actions...`);
+      gasFetcher?.save();
     }
     
+    const priceRequest = {
+      action: action.action,
+      block: action.block_number,
+      logIndex: action.log_index,
+      timestamp: action.timestamp,
+    };
+    const context = actionContexts.get(action) || mainContext;
+    const recoveredFrom = recoverySource(action);
+    
+    // Attributed before pricing, so earnings of actions that fail pricing aren't reported as unmatched
+    // Recovered mints are not in the earnings file and carry no reward
+    const attribution: RewardAttribution = recoveredFrom
+      ? { tokenId: action.token_id, reward: 0, method: "direct", confidence: "high" }
+      : rewardAttributor.attribute(action);
+    
+    // Only rows with a reward need an AERO price, so AERO_PRICE_STRICT can't abort on the others.
+    // Outside the try block so AERO_PRICE_STRICT aborts the run instead of logging a failed action
+    const aeroQuote: AeroPriceQuote = attribution.reward > 0
+      ? await getAeroPrice(context.aeroPriceChain, priceRequest)
+      : { price: 0, source: "none", offsetSeconds: null, swap: null };
+    
     try {
-      let swapEvent: SwapEvent | null = null;
-      
-      // For mint: find swap before
-      // For others: find swap after
-      if (action.action === "mint") {
-        swapEvent = findClosestSwapBeforeFromCache(swapsCache, action.block_number, action.log_index);
-      } else {
-        swapEvent = findClosestSwapAfterFromCache(swapsCache, action.block_number, action.log_index);
-      }
+      const quote = await context.priceSource.getPrice(priceRequest);
       
-      if (!swapEvent) {
-        failed.push({ action, reason: "no_swap_found" });
+      if (!quote) {
+        failed.push({ action, reason: noPriceReason });
         continue;
       }
       
-      const cbBtcPrice = calculateCbBtcPrice(swapEvent.sqrtPriceX96);
+      const basePrice = quote.price;
+      const swapEvent = quote.swap;
       
-      // Get reward from earnings map
-      let reward = 0;
-      let inferredTokenId = action.token_id;
+      // Quote token USD price: $1 for stablecoins, otherwise from the quote/USD pool
+      let quoteUsdPrice = 1;
+      if (context.quoteUsdPriceSource) {
+        const quoteUsd = await context.quoteUsdPriceSource.getPrice(priceRequest);
+        if (!quoteUsd) {
+          failed.push({ action, reason: "no_quote_usd_price_found" });
+          continue;
+        }
+        quoteUsdPrice = quoteUsd.price;
+      }
       
-      if (action.action === "gauge_getReward" && !action.token_id) {
-        // Infer token_id by looking at adjacent actions in the same transaction
-        // gauge_getReward typically happens with gauge_withdraw or burn in the same tx
-        
-        // Look backwards and forwards in the filtered actions array
-        for (let offset = -5; offset <= 5; offset++) {
-          if (offset === 0) continue; // Skip current action
-          
-          const neighborIndex = i + offset;
-          if (neighborIndex >= 0 && neighborIndex < filteredActions.length) {
-            const neighbor = filteredActions[neighborIndex];
-            
-            // If same timestamp and has token_id, use it
-            if (neighbor.timestamp === action.timestamp && neighbor.token_id) {
-              inferredTokenId = neighbor.token_id;
-              break;
-            }
+      let gas: GasCost | null = null;
+      let ethUsdPrice = 0;
+      if (gasFetcher && context.ethUsdPriceSource) {
+        // A missing receipt leaves the gas columns blank rather than failing the row
+        gas = await gasFetcher.getGasCost(action.tx_hash);
+        if (gas) {
+          const ethUsd = await context.ethUsdPriceSource.getPrice(priceRequest);
+          if (!ethUsd) {
+            failed.push({ action, reason: "no_eth_price_found" });
+            continue;
           }
+          ethUsdPrice = ethUsd.price;
+        } else {
+          missingReceiptCount++;
         }
-        
-        // Get reward from earnings
-        const getRewardData = getRewardByTimestamp.get(action.timestamp);
-        reward = getRewardData?.reward || 0;
-      } else {
-        const earningsKey = `${action.timestamp}|${action.action}|${action.token_id}`;
-        reward = earningsMap.get(earningsKey) || 0;
       }
+      const chargeGas = gas !== null && !chargedTxs.has(action.tx_hash.toLowerCase());
+      if (chargeGas) {
+        chargedTxs.add(action.tx_hash.toLowerCase());
+      }
+      
+      const baseUsdPrice = basePrice * quoteUsdPrice;
+      const token0UsdPrice = POOL.quoteToken === 0 ? quoteUsdPrice : baseUsdPrice;
+      const token1UsdPrice = POOL.quoteToken === 1 ? quoteUsdPrice : baseUsdPrice;
+      
+      // Reward and (for gauge_getReward without token_id) the position it belongs to
+      const reward = attribution.reward;
+      attributionCounts.set(attribution.method, (attributionCounts.get(attribution.method) || 0) + 1);
+      
+      const ticks = action.tick_lower === "" && action.tick_upper === "" && mintTicks.has(action.token_id)
+        ? mintTicks.get(action.token_id)!
+        : { tick_lower: action.tick_lower, tick_upper: action.tick_upper };
       
       // Calculate USD values
-      const amount0_usd = action.amount0_dec; // USDC is 1:1 with USD
-      const amount1_usd = action.amount1_dec * cbBtcPrice;
-      const aeroPrice = getAeroPrice(aeroPriceMap, action.timestamp);
-      const reward_usd = reward * aeroPrice; // Real AERO price from CoinGecko
+      const amountCheck = isDeposit(action.action) || isWithdrawal(action.action)
+        ? checkPositionAmounts(
+            POOL,
+            { ...action, ...ticks },
+            findClosestSwapBefore(context.poolSwaps, action.block_number, action.log_index)?.sqrtPriceX96 ?? null,
+            amountCheckTolerance
+          )
+        : null;
+      if (amountCheck?.status === "mismatch") {
+        amountMismatches++;
+      }
+      
+      const amount0_usd = action.amount0_dec * token0UsdPrice;
+      const amount1_usd = action.amount1_dec * token1UsdPrice;
+      const reward_usd = reward * aeroQuote.price;
+      aeroSourceCounts.set(aeroQuote.source, (aeroSourceCounts.get(aeroQuote.source) || 0) + 1);
       
       outputRows.push({
         timestamp: action.timestamp,
@@ -591,59 +1178,65 @@ async function main() {
         tx_hash: action.tx_hash,
         block: action.block_number,
         block_index: action.log_index,
-        swap_block: swapEvent.blockNumber,
-        swap_index: swapEvent.index,
-        swap_hash: swapEvent.transactionHash,
-        token_id: inferredTokenId, // Use inferred token_id for gauge_getReward
+        swap_block: swapEvent ? swapEvent.blockNumber : "",
+        swap_index: swapEvent ? swapEvent.index : "",
+        swap_hash: swapEvent ? swapEvent.transactionHash : "",
+        token_id: attribution.tokenId, // Inferred token_id for gauge_getReward
         action: action.action,
-        cbBTC_price: cbBtcPrice,
-        AERO_price: aeroPrice,
-        tick_lower: action.tick_lower,
-        tick_upper: action.tick_upper,
+        recovered_from: recoveredFrom ?? "",
+        pool: POOL.name,
+        base_price: basePrice,
+        price_source: priceSource.name,
+        AERO_price: aeroQuote.price,
+        AERO_price_source: aeroQuote.source,
+        AERO_price_offset_seconds: aeroQuote.offsetSeconds ?? "",
+        AERO_swap_block: aeroQuote.swap ? aeroQuote.swap.blockNumber : "",
+        AERO_swap_hash: aeroQuote.swap ? aeroQuote.swap.transactionHash : "",
+        tick_lower: ticks.tick_lower,
+        tick_upper: ticks.tick_upper,
+        liquidity: action.liquidity ?? "",
         amount0_dec: action.amount0_dec,
         amount1_dec: action.amount1_dec,
+        expected_amount0_dec: amountCheck?.expectedAmount0 ?? "",
+        expected_amount1_dec: amountCheck?.expectedAmount1 ?? "",
+        amount_check: amountCheck?.status ?? "",
         fee0_dec: action.fee0_dec,
         fee1_dec: action.fee1_dec,
         reward: reward,
+        attribution_method: attribution.method,
+        attribution_confidence: attribution.confidence,
+        token0_price_usd: token0UsdPrice,
+        token1_price_usd: token1UsdPrice,
         amount0_usd: amount0_usd,
         amount1_usd: amount1_usd,
         AERO_usd: reward_usd,
+        gas_used: gas ? gas.gasUsed.toString() : "",
+        effective_gas_price_gwei: gas ? Number(gas.effectiveGasPrice) / 1e9 : "",
+        l1_fee_eth: gas ? weiToEth(gas.l1Fee) : "",
+        eth_price_usd: gas ? ethUsdPrice : "",
+        gas_cost_eth: gas ? (chargeGas ? weiToEth(gas.totalFee) : 0) : "",
+        gas_cost_usd: gas ? (chargeGas ? weiToEth(gas.totalFee) * ethUsdPrice : 0) : "",
       });
     } catch (error: any) {
       failed.push({ action, reason: error.message });
     }
   }
   
+  gasFetcher?.save();
   console.log();
   
   // Write output CSV
+  // In resume mode the recovered rows are merged into the existing file
+  let mergedRows: Array<Record<string, any>> = outputRows;
+  if (RESUME) {
+    mergedRows = mergeTransactionRows(existingRows, outputRows);
+    console.log(`✓ Recovered ${outputRows.length} of ${filteredActions.length} failed actions`);
+  }
+  
   if (outputRows.length > 0) {
-    const outputCsv = stringify(outputRows, {
+    const outputCsv = stringify(mergedRows, {
       header: true,
-      columns: [
-        "timestamp",
-        "timestamp_excel",
-        "tx_hash",
-        "block",
-        "block_index",
-        "swap_block",
-        "swap_index",
-        "swap_hash",
-        "token_id",
-        "action",
-        "cbBTC_price",
-        "AERO_price",
-        "tick_lower",
-        "tick_upper",
-        "amount0_dec",
-        "amount1_dec",
-        "fee0_dec",
-        "fee1_dec",
-        "reward",
-        "amount0_usd",
-        "amount1_usd",
-        "AERO_usd",
-      ],
+      columns: outputColumns,
     });
     
     // Ensure output directory exists
@@ -655,30 +1248,81 @@ async function main() {
     fs.writeFileSync(outputPath, outputCsv, "utf-8");
     
     console.log("=".repeat(60));
-    console.log(`✓ Successfully processed ${outputRows.length} actions`);
+    console.log(`✓ Successfully processed ${mergedRows.length} actions`);
     console.log(`✓ Output written to: ${outputPath}`);
+    console.log(`  Reward attribution: ${[...attributionCounts].map(([method, count]) => `${method}=${count}`).join(", ")}`);
+    console.log(`  AERO price sources: ${[...aeroSourceCounts].map(([source, count]) => `${source}=${count}`).join(", ")}`);
+    
+    if (gasFetcher) {
+      const gasEth = outputRows.reduce((sum, row) => sum + (row.gas_cost_eth || 0), 0);
+      const gasUsd = outputRows.reduce((sum, row) => sum + (row.gas_cost_usd || 0), 0);
+      console.log(`  Gas: ${gasEth.toFixed(6)} ETH ($${gasUsd.toFixed(2)}) over ${outputRows.filter(row => (row.gas_cost_eth || 0) > 0).length} transactions`);
+      if (missingReceiptCount > 0) {
+        console.log(`  ⚠️  No receipt for ${missingReceiptCount} actions, their gas columns are left empty`);
+      }
+    }
+    
+    const recoveredCount = outputRows.filter(row => row.recovered_from !== "").length;
+    if (recoveredCount > 0) {
+      console.log(`  Recovered mints of pre-existing positions: ${recoveredCount} (recovered_from column)`);
+    }
+    
+    if (amountMismatches > 0) {
+      console.log(`⚠️  ${amountMismatches} liquidity rows disagree with the position math by more than ${amountCheckTolerance * 100}% (amount_check=mismatch)`);
+    }
+    
+    const fallbackCount = aeroSourceCounts.get("fallback") || 0;
+    if (fallbackCount > 0) {
+      console.log(`⚠️  ${fallbackCount} rows valued AERO at the 1 USD fallback (set AERO_PRICE_STRICT=true to fail instead)`);
+    }
   }
   
-  if (failed.length > 0) {
-    console.log(`⚠ Failed to process ${failed.length} actions`);
+  const failedRecords: FailedActionRecord[] = [
+    ...failed.map((f) => ({
+      timestamp: f.action.timestamp,
+      block: String(f.action.block_number),
+      tx_hash: f.action.tx_hash,
+      action: f.action.action,
+      log_index: String(f.action.log_index),
+      reason: f.reason,
+    })),
+    ...unresolvedFailures,
+  ];
+  
+  if (failedRecords.length > 0) {
+    console.log(`⚠ Failed to process ${failedRecords.length} actions`);
     
     // Write failed actions to a separate file
-    const failedCsv = stringify(
-      failed.map((f) => ({
-        timestamp: f.action.timestamp,
-        block: f.action.block_number,
-        tx_hash: f.action.tx_hash,
-        action: f.action.action,
-        reason: f.reason,
-      })),
-      { header: true }
-    );
+    const failedCsv = stringify(failedRecords, {
+      header: true,
+      columns: ["timestamp", "block", "tx_hash", "action", "log_index", "reason"],
+    });
     
-    const failedPath = path.join(path.dirname(outputPath), "failed_actions.csv");
     fs.writeFileSync(failedPath, failedCsv, "utf-8");
     console.log(`  Failed actions logged to: ${failedPath}`);
+    if (!RESUME) {
+      console.log(`  Retry them with a wider swap window: RESUME=true (RESUME_BUFFER_BLOCKS=${RESUME_BUFFER_BLOCKS})`);
+    }
+  } else if (fs.existsSync(failedPath)) {
+    // Don't leave a stale list from an earlier run behind
+    fs.unlinkSync(failedPath);
+  }
+  
+  // The earnings join only sees the retried actions when resuming, so keep the full run's reports
+  if (!RESUME) {
+    writeUnmatchedReports(rewardAttributor, path.dirname(outputPath));
+    if (outputRows.length > 0) {
+      writePositionRanges(candidateActions, poolSwaps, windowEndBlock, outputPath);
+      if (markPoint) {
+        await writeOpenPositionMarks(candidateActions, poolSwaps, markPoint, minBlock, outputPath);
+      }
+      if (markPoint && EQUITY_RESOLUTION) {
+        await writeEquityCurve(outputRows, poolSwaps, markPoint, minBlock, EQUITY_RESOLUTION, outputPath);
+      }
+    }
   }
   
+  console.log(`  RPC endpoints: ${rpc.describe()}`);
   console.log("=".repeat(60));
   console.log("Done!");
 }
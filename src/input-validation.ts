@@ -0,0 +1,283 @@
+/**
+ * Schema validation for the actions and earnings input CSVs
+ * Checks required columns, numeric types, allowed action values, hash/address formats and
+ * (for actions) strictly increasing block / log index order, and converts valid rows to
+ * typed values. Blank numbers are only accepted where a column allows them, so a misspelled
+ * header or an empty amount is reported instead of silently becoming zero.
+ * INPUT_VALIDATION=fail (default) stops the run on any issue, skip drops the bad rows.
+ */
+
+import * as fs from "fs";
+import { parse } from "csv-parse/sync";
+import { stringify } from "csv-stringify/sync";
+import { DEPOSIT_ACTIONS, WITHDRAW_ACTIONS } from "./position-actions";
+
+// "integer_string" is checked like "integer" but kept as text (ticks, raw token amounts beyond 2^53)
+export type ColumnType =
+  | "string"
+  | "integer"
+  | "integer_string"
+  | "number"
+  | "timestamp"
+  | "hash"
+  | "address"
+  | "token_id"
+  | "action";
+
+export type ValidationMode = "fail" | "skip";
+
+export const ACTION_TYPES = [
+  "mint",
+  "burn",
+  "collect",
+  "increaseLiquidity",
+  "decreaseLiquidity",
+  "gauge_deposit",
+  "gauge_withdraw",
+  "gauge_getReward",
+  "closing_state",
+];
+
+interface ColumnRule {
+  name: string;
+  type: ColumnType;
+  optional?: boolean; // Column may be missing from the header
+  // Blank values are accepted (as 0 for numbers) when true, or when the function returns true for the row
+  allowBlank?: boolean | ((record: Record<string, string>) => boolean);
+}
+
+export interface InputSchema {
+  name: string;
+  columns: ColumnRule[];
+  order?: [string, string]; // Integer columns that must strictly increase together (e.g. block, log index)
+  unordered?: (record: Record<string, string>) => boolean; // Rows exempt from the order check
+}
+
+export interface ValidationIssue {
+  file: string;
+  line: number; // CSV line (header is line 1)
+  column: string;
+  value: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  rows: Record<string, any>[];
+  issues: ValidationIssue[];
+  skippedRows: number;
+  fatal: boolean; // File-level problem (e.g. missing column), never skippable
+}
+
+const blankUnlessAction = (...actions: string[]) =>
+  (record: Record<string, string>) => !actions.includes(record.action);
+
+const LIQUIDITY_ACTIONS = [...DEPOSIT_ACTIONS, ...WITHDRAW_ACTIONS];
+
+// closing_state rows are end-of-range snapshots, not on-chain events
+const isSnapshot = (record: Record<string, string>) => record.action === "closing_state";
+
+export const ACTIONS_SCHEMA: InputSchema = {
+  name: "actions",
+  columns: [
+    { name: "timestamp", type: "timestamp" },
+    { name: "block_number", type: "integer" },
+    { name: "tx_index", type: "integer", optional: true, allowBlank: true },
+    { name: "tx_hash", type: "hash", allowBlank: isSnapshot },
+    { name: "action", type: "action" },
+    { name: "log_index", type: "integer", allowBlank: isSnapshot },
+    { name: "token_id", type: "token_id", allowBlank: blankUnlessAction("mint", "burn", "collect", "increaseLiquidity", "decreaseLiquidity") },
+    { name: "tick_lower", type: "integer_string", allowBlank: blankUnlessAction("mint") },
+    { name: "tick_upper", type: "integer_string", allowBlank: blankUnlessAction("mint") },
+    { name: "liquidity", type: "integer_string", optional: true, allowBlank: true },
+    { name: "amount0", type: "integer_string", optional: true, allowBlank: true },
+    { name: "amount1", type: "integer_string", optional: true, allowBlank: true },
+    { name: "amount0_dec", type: "number", allowBlank: blankUnlessAction(...LIQUIDITY_ACTIONS) },
+    { name: "amount1_dec", type: "number", allowBlank: blankUnlessAction(...LIQUIDITY_ACTIONS) },
+    { name: "fee0", type: "integer_string", optional: true, allowBlank: true },
+    { name: "fee1", type: "integer_string", optional: true, allowBlank: true },
+    { name: "fee0_dec", type: "number", allowBlank: blankUnlessAction("collect") },
+    { name: "fee1_dec", type: "number", allowBlank: blankUnlessAction("collect") },
+    { name: "details", type: "string", optional: true, allowBlank: true },
+  ],
+  order: ["block_number", "log_index"],
+  unordered: isSnapshot,
+};
+
+export const EARNINGS_SCHEMA: InputSchema = {
+  name: "earnings",
+  columns: [
+    { name: "timestamp", type: "timestamp" },
+    { name: "action", type: "action" },
+    { name: "token_id", type: "token_id", allowBlank: true },
+    { name: "reward", type: "number" },
+    { name: "inpos0", type: "number", optional: true, allowBlank: true },
+    { name: "inpos1", type: "number", optional: true, allowBlank: true },
+    { name: "tx_hash", type: "hash", optional: true, allowBlank: true },
+    { name: "log_index", type: "integer", optional: true, allowBlank: true },
+  ],
+};
+
+export function getValidationMode(): ValidationMode {
+  const mode = (process.env.INPUT_VALIDATION || "fail").toLowerCase();
+  if (mode !== "fail" && mode !== "skip") {
+    throw new Error(`Unknown INPUT_VALIDATION "${mode}" (expected fail or skip)`);
+  }
+  return mode;
+}
+
+// Known action types plus any listed in INPUT_EXTRA_ACTIONS
+function getAllowedActions(): Set<string> {
+  const extra = (process.env.INPUT_EXTRA_ACTIONS || "")
+    .split(",")
+    .map(a => a.trim())
+    .filter(a => a.length > 0);
+  return new Set([...ACTION_TYPES, ...extra]);
+}
+
+// Problem with a single value, or null when it matches the column type
+function checkValue(type: ColumnType, value: string, allowedActions: Set<string>): string | null {
+  switch (type) {
+    case "integer":
+    case "integer_string":
+      return /^-?\d+$/.test(value) ? null : "expected an integer";
+    case "number":
+      return value !== "" && isFinite(Number(value)) ? null : "expected a number";
+    case "timestamp":
+      return /^\d+$/.test(value) || !isNaN(new Date(value).getTime()) ? null : "expected an ISO timestamp or unix seconds";
+    case "hash":
+      return /^0x[0-9a-fA-F]{64}$/.test(value) ? null : "expected a 0x-prefixed 32-byte hash";
+    case "address":
+      return /^0x[0-9a-fA-F]{40}$/.test(value) ? null : "expected a 0x-prefixed 20-byte address";
+    case "token_id":
+      return /^\d+(\.0+)?$/.test(value) ? null : "expected a numeric token id";
+    case "action":
+      return allowedActions.has(value) ? null : `unknown action (expected one of: ${[...allowedActions].join(", ")})`;
+    default:
+      return null;
+  }
+}
+
+function convertValue(type: ColumnType, value: string): any {
+  if (type === "integer") {
+    return value === "" ? "" : parseInt(value);
+  }
+  if (type === "number") {
+    return value === "" ? 0 : parseFloat(value);
+  }
+  return value;
+}
+
+// Validate parsed CSV records against a schema; header is the column list as read from the file
+export function validateRecords(
+  records: Record<string, string>[],
+  header: string[],
+  schema: InputSchema,
+  file: string
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const allowedActions = getAllowedActions();
+
+  // Header check first: a missing or misspelled column invalidates the whole file
+  const missing = schema.columns.filter(c => !c.optional && !header.includes(c.name));
+  for (const column of missing) {
+    issues.push({ file, line: 1, column: column.name, value: "", message: "required column missing from header" });
+  }
+  if (missing.length > 0) {
+    return { rows: [], issues, skippedRows: 0, fatal: true };
+  }
+
+  // Address-like columns outside the schema are format-checked too
+  const rules: ColumnRule[] = [
+    ...schema.columns.filter(c => header.includes(c.name)),
+    ...header
+      .filter(h => !schema.columns.some(c => c.name === h) && /(^|_)address$/.test(h))
+      .map(h => ({ name: h, type: "address" as ColumnType, allowBlank: true })),
+  ];
+
+  const rows: Record<string, any>[] = [];
+  let skippedRows = 0;
+  let previous: { line: number; key: [number, number] } | null = null;
+
+  records.forEach((record, i) => {
+    const line = i + 2;
+    const rowIssues: ValidationIssue[] = [];
+    const row: Record<string, any> = { ...record };
+
+    for (const rule of rules) {
+      const value = (record[rule.name] ?? "").trim();
+      const blankAllowed = typeof rule.allowBlank === "function" ? rule.allowBlank(record) : !!rule.allowBlank;
+
+      if (value === "") {
+        if (!blankAllowed) {
+          rowIssues.push({ file, line, column: rule.name, value, message: "blank value" });
+        }
+        row[rule.name] = convertValue(rule.type, value);
+        continue;
+      }
+
+      const problem = checkValue(rule.type, value, allowedActions);
+      if (problem) {
+        rowIssues.push({ file, line, column: rule.name, value, message: problem });
+      }
+      row[rule.name] = convertValue(rule.type, value);
+    }
+
+    // Ordering is only checked between rows that are otherwise valid
+    if (schema.order && rowIssues.length === 0 && !schema.unordered?.(record)) {
+      const [major, minor] = schema.order;
+      const key: [number, number] = [row[major], row[minor]];
+      if (previous) {
+        const cmp = key[0] - previous.key[0] || key[1] - previous.key[1];
+        if (cmp === 0) {
+          rowIssues.push({ file, line, column: `${major},${minor}`, value: key.join(","), message: `duplicate of line ${previous.line}` });
+        } else if (cmp < 0) {
+          rowIssues.push({
+            file,
+            line,
+            column: `${major},${minor}`,
+            value: key.join(","),
+            message: `out of order (line ${previous.line} is at ${previous.key.join(",")})`,
+          });
+        }
+      }
+      if (rowIssues.length === 0) {
+        previous = { line, key };
+      }
+    }
+
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+      skippedRows++;
+    } else {
+      rows.push(row);
+    }
+  });
+
+  return { rows, issues, skippedRows, fatal: false };
+}
+
+// Read, parse and validate one input CSV
+export function readValidatedCsv(filePath: string, schema: InputSchema): ValidationResult {
+  let header: string[] = [];
+  const records: Record<string, string>[] = parse(fs.readFileSync(filePath, "utf-8"), {
+    columns: (columns: string[]) => {
+      header = columns.map(c => c.trim());
+      return header;
+    },
+    skip_empty_lines: true,
+  });
+
+  return validateRecords(records, header, schema, filePath);
+}
+
+export function writeValidationReport(issues: ValidationIssue[], reportPath: string): void {
+  fs.writeFileSync(reportPath, stringify(issues, {
+    header: true,
+    columns: ["file", "line", "column", "value", "message"],
+  }), "utf-8");
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  const value = issue.value ? ` "${issue.value}"` : "";
+  return `${issue.file}:${issue.line} ${issue.column}${value}: ${issue.message}`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Mark-to-market valuation of positions still open at the end of the observation window
+ * Each position with a mint but no burn is valued at the last pool swap before the mark block
+ * (the latest closing_state row, else the last processed action). Holdings come from the
+ * position's closing_state row when present (liquidity + ticks, or reported amounts), otherwise
+ * from the liquidity added by its mints and top-ups net of partial exits. Uncollected fees are
+ * not included.
+ * index.ts writes the marks to open_positions_{label}.csv; analyze.ts uses them with MARK_TO_MARKET=true.
+ */
+
+import { PoolConfig, calculateBasePrice } from "./pools";
+import { SwapEvent } from "./price-lookup";
+import { getPositionAmounts } from "./position-math";
+import { siblingOutputPath } from "./output-paths";
+import { isDeposit } from "./position-actions";
+
+export type MarkSource = "closing_state" | "mint_liquidity";
+
+export interface OpenPositionMark {
+  token_id: string;
+  mark_block: number;
+  mark_timestamp: string;
+  mark_source: MarkSource;
+  tick_lower: number | "";
+  tick_upper: number | "";
+  liquidity: string;
+  mark_swap_block: number;
+  mark_tick: number;
+  mark_price: number; // Base token price in quote units at the mark swap
+  token0_price_usd: number;
+  token1_price_usd: number;
+  amount0_dec: number;
+  amount1_dec: number;
+  value_usd: number;
+}
+
+export const OPEN_POSITION_COLUMNS: Array<keyof OpenPositionMark> = [
+  "token_id",
+  "mark_block",
+  "mark_timestamp",
+  "mark_source",
+  "tick_lower",
+  "tick_upper",
+  "liquidity",
+  "mark_swap_block",
+  "mark_tick",
+  "mark_price",
+  "token0_price_usd",
+  "token1_price_usd",
+  "amount0_dec",
+  "amount1_dec",
+  "value_usd",
+];
+
+interface MarkAction {
+  timestamp: string;
+  block_number: number;
+  action: string;
+  token_id: string;
+  tick_lower: string;
+  tick_upper: string;
+  liquidity?: string;
+  amount0_dec: number;
+  amount1_dec: number;
+}
+
+export interface MarkPoint {
+  block: number;
+  timestamp: string;
+}
+
+// open_positions file next to a transaction_details file (same label)
+export function openPositionsPath(transactionDetailsPath: string): string {
+  return siblingOutputPath(transactionDetailsPath, "open_positions");
+}
+
+// End of the observation window: the latest closing_state row, else the last action
+export function getMarkPoint(actions: MarkAction[]): MarkPoint | null {
+  const snapshots = actions.filter(a => a.action === "closing_state");
+  const candidates = snapshots.length > 0 ? snapshots : actions;
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const last = candidates.reduce((latest, a) => a.block_number > latest.block_number ? a : latest);
+  return { block: last.block_number, timestamp: last.timestamp };
+}
+
+function parseTicks(row: MarkAction): [number, number] | null {
+  const tickLower = parseInt(row.tick_lower);
+  const tickUpper = parseInt(row.tick_upper);
+  return isNaN(tickLower) || isNaN(tickUpper) || tickLower >= tickUpper ? null : [tickLower, tickUpper];
+}
+
+function absLiquidity(value: string | undefined): bigint | null {
+  if (!value) return null;
+  const liquidity = BigInt(value);
+  return liquidity < 0n ? -liquidity : liquidity;
+}
+
+// Value every minted-but-not-burned position at the mark swap; quoteUsdPrice is 1 for stablecoin quotes.
+// Returns the marks and the token ids that could not be valued (no liquidity, ticks or amounts).
+export function markOpenPositions(
+  pool: PoolConfig,
+  actions: MarkAction[],
+  mark: MarkPoint,
+  markSwap: SwapEvent,
+  quoteUsdPrice: number
+): { marks: OpenPositionMark[]; unpriced: string[] } {
+  const mints = new Map<string, MarkAction[]>();
+  const liquidityChanges = new Map<string, MarkAction[]>(); // Deposits and partial exits
+  const burned = new Set<string>();
+  const closing = new Map<string, MarkAction>();
+
+  for (const action of actions) {
+    if (!action.token_id) continue;
+    if (isDeposit(action.action) || action.action === "decreaseLiquidity") {
+      liquidityChanges.set(action.token_id, [...(liquidityChanges.get(action.token_id) || []), action]);
+      if (action.action === "mint") {
+        mints.set(action.token_id, [...(mints.get(action.token_id) || []), action]);
+      }
+    } else if (action.action === "burn") {
+      burned.add(action.token_id);
+    } else if (action.action === "closing_state") {
+      closing.set(action.token_id, action);
+    }
+  }
+
+  const basePrice = calculateBasePrice(pool, markSwap.sqrtPriceX96);
+  const baseUsdPrice = basePrice * quoteUsdPrice;
+  const token0UsdPrice = pool.quoteToken === 0 ? quoteUsdPrice : baseUsdPrice;
+  const token1UsdPrice = pool.quoteToken === 1 ? quoteUsdPrice : baseUsdPrice;
+
+  const marks: OpenPositionMark[] = [];
+  const unpriced: string[] = [];
+
+  for (const [tokenId, positionMints] of mints) {
+    if (burned.has(tokenId)) continue;
+
+    const snapshot = closing.get(tokenId);
+    const snapshotTicks = snapshot ? parseTicks(snapshot) : null;
+    const snapshotLiquidity = snapshot ? absLiquidity(snapshot.liquidity) : null;
+    const mintTicks = parseTicks(positionMints[0]);
+    const changes = liquidityChanges.get(tokenId)!;
+    const netLiquidity = changes.every(c => c.liquidity)
+      ? changes.reduce((sum, c) => c.action === "decreaseLiquidity" ? sum - absLiquidity(c.liquidity)! : sum + absLiquidity(c.liquidity)!, 0n)
+      : null;
+    const mintLiquidity = netLiquidity !== null && netLiquidity < 0n ? 0n : netLiquidity;
+
+    let source: MarkSource;
+    let ticks: [number, number] | null = null;
+    let liquidity: bigint | null = null;
+    let amounts: { amount0: number; amount1: number };
+
+    if (snapshot && snapshotLiquidity !== null && (snapshotTicks || mintTicks)) {
+      source = "closing_state";
+      ticks = snapshotTicks || mintTicks;
+      liquidity = snapshotLiquidity;
+      amounts = getPositionAmounts(pool, markSwap.sqrtPriceX96, ticks![0], ticks![1], liquidity);
+    } else if (snapshot && (snapshot.amount0_dec !== 0 || snapshot.amount1_dec !== 0)) {
+      // Snapshot without liquidity: take its reported holdings as-is
+      source = "closing_state";
+      ticks = snapshotTicks || mintTicks;
+      amounts = { amount0: snapshot.amount0_dec, amount1: snapshot.amount1_dec };
+    } else if (mintTicks && mintLiquidity !== null) {
+      source = "mint_liquidity";
+      ticks = mintTicks;
+      liquidity = mintLiquidity;
+      amounts = getPositionAmounts(pool, markSwap.sqrtPriceX96, ticks[0], ticks[1], liquidity);
+    } else {
+      unpriced.push(tokenId);
+      continue;
+    }
+
+    marks.push({
+      token_id: tokenId,
+      mark_block: mark.block,
+      mark_timestamp: mark.timestamp,
+      mark_source: source,
+      tick_lower: ticks ? ticks[0] : "",
+      tick_upper: ticks ? ticks[1] : "",
+      liquidity: liquidity !== null ? liquidity.toString() : "",
+      mark_swap_block: markSwap.blockNumber,
+      mark_tick: markSwap.tick,
+      mark_price: basePrice,
+      token0_price_usd: token0UsdPrice,
+      token1_price_usd: token1UsdPrice,
+      amount0_dec: amounts.amount0,
+      amount1_dec: amounts.amount1,
+      value_usd: amounts.amount0 * token0UsdPrice + amounts.amount1 * token1UsdPrice,
+    });
+  }
+
+  return { marks, unpriced };
+}
@@ -0,0 +1,17 @@
+/**
+ * Names of the per-run side outputs written next to transaction_details
+ * (e.g. transaction_details_blocks_1_2.csv -> position_ranges_blocks_1_2.csv), so analyze.ts
+ * finds them from the transaction details path alone.
+ */
+
+import * as path from "path";
+
+// {kind}_{label}.csv for {source}_{label}.csv (transaction_details by default), or {kind}.csv
+// next to any other file name
+export function siblingOutputPath(sourcePath: string, kind: string, source = "transaction_details"): string {
+  const dir = path.dirname(sourcePath);
+  const file = path.basename(sourcePath);
+  return file.includes(source)
+    ? path.join(dir, file.replace(source, kind))
+    : path.join(dir, `${kind}.csv`);
+}
@@ -0,0 +1,133 @@
+/**
+ * Calendar buckets for the period statistics
+ * PERIOD_BUCKET selects hour, 4h, day (default), week (Monday to Monday) or month buckets, and
+ * PERIOD_TIMEZONE the IANA timezone their boundaries follow (default UTC), e.g. days from local
+ * midnight in America/New_York. Boundaries are computed in local time, so buckets around a DST
+ * change are an hour shorter or longer.
+ */
+
+export type PeriodBucket = "hour" | "4h" | "day" | "week" | "month";
+
+export const PERIOD_BUCKETS: PeriodBucket[] = ["hour", "4h", "day", "week", "month"];
+
+export interface Period {
+  label: string; // Local start: YYYY-MM-DD HH:00 (hour, 4h), YYYY-MM-DD (day, week) or YYYY-MM (month)
+  start: number; // ms, inclusive
+  end: number; // ms, exclusive (start of the next period)
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Step past the end of any bucket starting at its boundary (DST days last 23-25 hours), but
+// not past the next one
+const NEXT_BUCKET_STEP_MS: Record<PeriodBucket, number> = {
+  hour: HOUR_MS,
+  "4h": 5 * HOUR_MS,
+  day: 25 * HOUR_MS,
+  week: 7 * DAY_MS + 2 * HOUR_MS,
+  month: 32 * DAY_MS,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getPeriodBucket(): PeriodBucket {
+  const value = (process.env.PERIOD_BUCKET || "day").toLowerCase();
+  if (!PERIOD_BUCKETS.includes(value as PeriodBucket)) {
+    throw new Error(`Unknown PERIOD_BUCKET "${value}" (expected ${PERIOD_BUCKETS.join(", ")})`);
+  }
+  return value as PeriodBucket;
+}
+
+export function getPeriodTimezone(): string {
+  const timeZone = process.env.PERIOD_TIMEZONE || "UTC";
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new Error(`Unknown PERIOD_TIMEZONE "${timeZone}" (expected an IANA timezone, e.g. Europe/Berlin)`);
+  }
+  return timeZone;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Local time minus UTC at the given instant, in ms
+function zoneOffset(time: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(time))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  }
+  const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return localAsUtc - Math.floor(time / 1000) * 1000;
+}
+
+// Start of the bucket containing time, as [local start written as UTC, UTC instant]
+function bucketStart(time: number, bucket: PeriodBucket, timeZone: string): [number, number] {
+  const offset = zoneOffset(time, timeZone);
+  const local = new Date(time + offset);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+  const hour = local.getUTCHours();
+
+  let localStart: number;
+  switch (bucket) {
+    case "hour":
+      localStart = Date.UTC(year, month, day, hour);
+      break;
+    case "4h":
+      localStart = Date.UTC(year, month, day, hour - (hour % 4));
+      break;
+    case "day":
+      localStart = Date.UTC(year, month, day);
+      break;
+    case "week":
+      localStart = Date.UTC(year, month, day) - ((local.getUTCDay() + 6) % 7) * DAY_MS;
+      break;
+    case "month":
+      localStart = Date.UTC(year, month, 1);
+      break;
+  }
+
+  // The offset may differ at the bucket start when a DST change lies in between
+  const guess = localStart - offset;
+  return [localStart, localStart - zoneOffset(guess, timeZone)];
+}
+
+function formatLabel(localStart: number, bucket: PeriodBucket): string {
+  const iso = new Date(localStart).toISOString();
+  if (bucket === "month") return iso.slice(0, 7);
+  if (bucket === "day" || bucket === "week") return iso.slice(0, 10);
+  return `${iso.slice(0, 10)} ${iso.slice(11, 13)}:00`;
+}
+
+// Consecutive periods covering [from, to], including the ones without events
+export function getPeriods(from: number, to: number, bucket: PeriodBucket, timeZone: string): Period[] {
+  const periods: Period[] = [];
+  let [localStart, start] = bucketStart(from, bucket, timeZone);
+
+  while (start <= to) {
+    const [nextLocal, next] = bucketStart(start + NEXT_BUCKET_STEP_MS[bucket], bucket, timeZone);
+    periods.push({ label: formatLabel(localStart, bucket), start, end: next });
+    localStart = nextLocal;
+    start = next;
+  }
+
+  return periods;
+}
@@ -0,0 +1,130 @@
+/**
+ * Registry of Aerodrome Slipstream pools the pipeline can analyse
+ * Select a pool per run with POOL=<name or address> (default: USDC-cbBTC).
+ * Extra pools can be added without code changes via POOL_REGISTRY_FILE,
+ * a JSON array of PoolConfig objects.
+ */
+
+import * as fs from "fs";
+
+export interface TokenConfig {
+  symbol: string;
+  decimals: number;
+}
+
+export interface PoolConfig {
+  name: string;
+  address: string;
+  token0: TokenConfig;
+  token1: TokenConfig;
+  quoteToken: 0 | 1; // Side the other (base) token is priced in
+  stable: boolean; // Quote token is a USD stablecoin valued at $1
+  quoteUsdPool?: string; // Registry pool that prices the quote token in USD (required when not stable)
+}
+
+export const DEFAULT_POOL = "USDC-cbBTC";
+
+const BUILTIN_POOLS: PoolConfig[] = [
+  {
+    name: "USDC-cbBTC",
+    address: "0x4e962BB3889Bf030368F56810A9c96B83CB3E778",
+    token0: { symbol: "USDC", decimals: 6 },
+    token1: { symbol: "cbBTC", decimals: 8 },
+    quoteToken: 0,
+    stable: true,
+  },
+  {
+    name: "WETH-USDC",
+    address: "0xb2cc224c1c9feE385f8ad6a55b4d94E92359DC59",
+    token0: { symbol: "WETH", decimals: 18 },
+    token1: { symbol: "USDC", decimals: 6 },
+    quoteToken: 1,
+    stable: true,
+  },
+];
+
+const Q96 = 2n ** 96n;
+
+export function loadPoolRegistry(): PoolConfig[] {
+  const registryFile = process.env.POOL_REGISTRY_FILE;
+  if (!registryFile) {
+    return BUILTIN_POOLS;
+  }
+
+  if (!fs.existsSync(registryFile)) {
+    throw new Error(`Pool registry file not found: ${registryFile}`);
+  }
+
+  const extraPools: PoolConfig[] = JSON.parse(fs.readFileSync(registryFile, "utf-8"));
+  for (const pool of extraPools) {
+    if (!pool.name || !pool.address || !pool.token0 || !pool.token1 || (pool.quoteToken !== 0 && pool.quoteToken !== 1)) {
+      throw new Error(`Invalid pool entry in ${registryFile}: ${JSON.stringify(pool)}`);
+    }
+  }
+
+  // Entries from the file override built-ins with the same name
+  const names = new Set(extraPools.map(p => p.name.toLowerCase()));
+  return [...BUILTIN_POOLS.filter(p => !names.has(p.name.toLowerCase())), ...extraPools];
+}
+
+// Look up a pool by name or address (defaults to POOL env var, then USDC-cbBTC)
+export function resolvePool(nameOrAddress?: string): PoolConfig {
+  const key = (nameOrAddress || process.env.POOL || DEFAULT_POOL).toLowerCase();
+  const registry = loadPoolRegistry();
+  const pool = registry.find(p => p.name.toLowerCase() === key || p.address.toLowerCase() === key);
+
+  if (!pool) {
+    throw new Error(`Unknown pool "${nameOrAddress || process.env.POOL}" (known pools: ${registry.map(p => p.name).join(", ")})`);
+  }
+
+  if (!pool.stable && !pool.quoteUsdPool) {
+    throw new Error(`Pool ${pool.name} has a non-stable quote token and needs quoteUsdPool in the registry`);
+  }
+
+  return pool;
+}
+
+export function getBaseToken(pool: PoolConfig): TokenConfig {
+  return pool.quoteToken === 0 ? pool.token1 : pool.token0;
+}
+
+export function getQuoteToken(pool: PoolConfig): TokenConfig {
+  return pool.quoteToken === 0 ? pool.token0 : pool.token1;
+}
+
+// Column holding the base token price in quote units (e.g. "cbBTC_price")
+export function basePriceColumn(pool: PoolConfig): string {
+  return `${getBaseToken(pool).symbol}_price`;
+}
+
+// Lowercase token symbol used in analysis column names (e.g. "total_deposit_cbbtc")
+export function tokenColumnSuffix(token: TokenConfig): string {
+  return token.symbol.toLowerCase();
+}
+
+function priceToken1PerToken0FromSqrtPriceX96(sqrtPriceX96: bigint): number {
+  // Price = (sqrtP / 2^96)^2
+  const num = Number(sqrtPriceX96) / Number(Q96);
+  return num * num;
+}
+
+function adjustForDecimals(rawPrice: number, dec0: number, dec1: number): number {
+  return rawPrice * Math.pow(10, dec0 - dec1);
+}
+
+// Base token price in quote token units from a swap's sqrtPriceX96
+export function calculateBasePrice(pool: PoolConfig, sqrtPriceX96: bigint): number {
+  // Get raw price (token1 per token0)
+  const rawRatio = priceToken1PerToken0FromSqrtPriceX96(sqrtPriceX96);
+  // Adjust for decimals to get actual token1 per token0
+  const token1PerToken0 = adjustForDecimals(rawRatio, pool.token0.decimals, pool.token1.decimals);
+  // When token0 is the quote, the base price is the inverse (token0 per token1)
+  return pool.quoteToken === 0 ? 1 / token1PerToken0 : token1PerToken0;
+}
+
+// Pool tick (fractional) at which the base token trades at basePrice quote units
+export function tickAtBasePrice(pool: PoolConfig, basePrice: number): number {
+  const token1PerToken0 = pool.quoteToken === 0 ? 1 / basePrice : basePrice;
+  const rawRatio = adjustForDecimals(token1PerToken0, pool.token1.decimals, pool.token0.decimals);
+  return Math.log(rawRatio) / Math.log(1.0001);
+}
@@ -0,0 +1,62 @@
+/**
+ * Position action kinds
+ * Liquidity enters a position with mint (the NFT mint) and increaseLiquidity (top-ups), and
+ * leaves it with decreaseLiquidity (partial exits) and burn (the final exit, which closes the
+ * position and carries the amounts it removed). gauge_deposit / gauge_withdraw stake and unstake
+ * the position NFT in the gauge: staked positions earn AERO instead of trading fees.
+ */
+
+export const DEPOSIT_ACTIONS = ["mint", "increaseLiquidity"];
+export const WITHDRAW_ACTIONS = ["decreaseLiquidity", "burn"];
+export const STAKE_ACTIONS = ["gauge_deposit", "gauge_withdraw"];
+
+export function isDeposit(action: string): boolean {
+  return DEPOSIT_ACTIONS.includes(action);
+}
+
+export function isWithdrawal(action: string): boolean {
+  return WITHDRAW_ACTIONS.includes(action);
+}
+
+interface StakeAction {
+  timestamp: string;
+  action: string;
+}
+
+export interface StakingStats {
+  staked_seconds: number;
+  stake_count: number; // gauge_deposit actions
+}
+
+// Time staked in the gauge up to end (default: the last action). A gauge_withdraw without an
+// earlier deposit means the position was staked before its first action; a burn ends staking.
+export function getStakingStats(actions: StakeAction[], end?: Date): StakingStats {
+  const sorted = [...actions].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (sorted.length === 0) {
+    return { staked_seconds: 0, stake_count: 0 };
+  }
+
+  const endTime = end ? end.getTime() : new Date(sorted[sorted.length - 1].timestamp).getTime();
+  const firstGauge = sorted.find(a => STAKE_ACTIONS.includes(a.action));
+  let stakedSince: number | null = firstGauge?.action === "gauge_withdraw"
+    ? new Date(sorted[0].timestamp).getTime()
+    : null;
+  let stakedMs = 0;
+  let stakeCount = 0;
+
+  for (const action of sorted) {
+    const time = new Date(action.timestamp).getTime();
+    if (action.action === "gauge_deposit") {
+      stakeCount++;
+      if (stakedSince === null) stakedSince = time;
+    } else if ((action.action === "gauge_withdraw" || action.action === "burn") && stakedSince !== null) {
+      stakedMs += time - stakedSince;
+      stakedSince = null;
+    }
+  }
+  if (stakedSince !== null) {
+    stakedMs += Math.max(0, endTime - stakedSince);
+  }
+
+  return { staked_seconds: stakedMs / 1000, stake_count: stakeCount };
+}
@@ -0,0 +1,225 @@
+/**
+ * Mint history of pre-existing positions
+ * Positions changed or burned in the window but minted before it are otherwise dropped as
+ * "pre-existing". Their mints (and later liquidity increases) are recovered as mint and
+ * increaseLiquidity actions from
+ * POSITION_HISTORY_FILE (an actions-format CSV covering earlier blocks), and, with
+ * POSITION_HISTORY_RPC=true, from the position manager's IncreaseLiquidity logs. The RPC
+ * lookup binary-searches ownerOf(tokenId) over historical blocks, so it needs an archive node.
+ */
+
+import { Contract, Interface, JsonRpcProvider, toBeHex, zeroPadValue } from "ethers";
+import { PoolConfig } from "./pools";
+import { RpcPool } from "./rpc";
+import { ACTIONS_SCHEMA, readValidatedCsv, formatIssue } from "./input-validation";
+import { isDeposit, isWithdrawal } from "./position-actions";
+
+// Aerodrome Slipstream NonfungiblePositionManager on Base
+export const DEFAULT_POSITION_MANAGER = "0x827922686190790b37229fd06084350E74485b72";
+
+export type RecoverySource = "history_file" | "rpc";
+
+export interface RecoveredAction {
+  timestamp: string;
+  block_number: number;
+  tx_index: number;
+  tx_hash: string;
+  action: string;
+  log_index: number;
+  token_id: string;
+  tick_lower: string;
+  tick_upper: string;
+  liquidity: string;
+  amount0: string;
+  amount1: string;
+  amount0_dec: number;
+  amount1_dec: number;
+  fee0: string;
+  fee1: string;
+  fee0_dec: number;
+  fee1_dec: number;
+  details: string; // recovered_from_history_file or recovered_from_rpc
+}
+
+interface HistoryAction {
+  block_number: number;
+  action: string;
+  token_id: string;
+}
+
+const POSITION_MANAGER_ABI = [
+  "event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, int24 tickSpacing, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)",
+];
+
+const POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function tickSpacing() view returns (int24)",
+];
+
+// Token ids with liquidity changes (burn, decrease or increase) but no mint among the actions,
+// with the block of their first action
+export function findPreExistingPositions(actions: HistoryAction[]): Map<string, number> {
+  const minted = new Set(actions.filter(a => a.action === "mint").map(a => a.token_id));
+  const changed = new Set(actions.filter(a => isDeposit(a.action) || isWithdrawal(a.action)).map(a => a.token_id));
+  const firstBlock = new Map<string, number>();
+
+  for (const action of actions) {
+    if (!action.token_id || minted.has(action.token_id) || !changed.has(action.token_id)) continue;
+    const block = firstBlock.get(action.token_id);
+    if (block === undefined || action.block_number < block) {
+      firstBlock.set(action.token_id, action.block_number);
+    }
+  }
+
+  return firstBlock;
+}
+
+export function recoverySource(action: { details?: string }): RecoverySource | null {
+  const match = (action.details || "").match(/^recovered_from_(history_file|rpc)$/);
+  return match ? match[1] as RecoverySource : null;
+}
+
+// Mint and increaseLiquidity rows for the given positions from an actions-format history file,
+// before each position's first action
+export function readHistoryMints(historyPath: string, positions: Map<string, number>): RecoveredAction[] {
+  const result = readValidatedCsv(historyPath, ACTIONS_SCHEMA);
+  if (result.issues.length > 0) {
+    throw new Error(`Invalid position history file: ${formatIssue(result.issues[0])}` +
+      (result.issues.length > 1 ? ` (and ${result.issues.length - 1} more issues)` : ""));
+  }
+
+  return (result.rows as RecoveredAction[])
+    .filter(row => {
+      const firstBlock = positions.get(row.token_id);
+      return isDeposit(row.action) && firstBlock !== undefined && row.block_number < firstBlock;
+    })
+    .map(row => ({ ...row, details: "recovered_from_history_file" }));
+}
+
+export interface PositionHistoryFetcher {
+  // Mint and liquidity increases of tokenId before beforeBlock, or a reason it could not be recovered
+  fetchMints(tokenId: string, beforeBlock: number): Promise<RecoveredAction[] | string>;
+}
+
+export function createPositionHistoryFetcher(
+  rpc: RpcPool,
+  pool: PoolConfig,
+  managerAddress: string,
+  fromBlock: number
+): PositionHistoryFetcher {
+  const managerInterface = new Interface(POSITION_MANAGER_ABI);
+  const increaseTopic = managerInterface.getEvent("IncreaseLiquidity")!.topicHash;
+  const provider: JsonRpcProvider = rpc.getProvider();
+  const manager = new Contract(managerAddress, POSITION_MANAGER_ABI, provider);
+  let poolKey: Promise<string> | null = null;
+
+  // Slipstream pools are identified by token0, token1 and tick spacing
+  function getPoolKey(): Promise<string> {
+    if (!poolKey) {
+      const poolContract = new Contract(pool.address, POOL_ABI, provider);
+      poolKey = Promise.all([poolContract.token0(), poolContract.token1(), poolContract.tickSpacing()])
+        .then(([token0, token1, tickSpacing]) => `${token0.toLowerCase()}|${token1.toLowerCase()}|${tickSpacing}`);
+    }
+    return poolKey;
+  }
+
+  // Reverts (not minted yet, or no contract at that block) mean the token does not exist;
+  // anything else is an RPC problem, typically a node without historical state
+  async function existsAt(tokenId: bigint, block: number): Promise<boolean> {
+    try {
+      await manager.ownerOf(tokenId, { blockTag: block });
+      return true;
+    } catch (error: any) {
+      if (error?.code === "CALL_EXCEPTION" || error?.code === "BAD_DATA") {
+        return false;
+      }
+      throw new Error(`ownerOf(${tokenId}) at block ${block} failed (POSITION_HISTORY_RPC needs an archive node): ${error?.shortMessage || error?.message}`);
+    }
+  }
+
+  return {
+    async fetchMints(tokenId, beforeBlock) {
+      const id = BigInt(tokenId);
+      if (!(await existsAt(id, beforeBlock - 1))) {
+        return `token ${tokenId} does not exist at block ${beforeBlock - 1}`;
+      }
+
+      // First block at which the token exists = its mint block
+      let lo = fromBlock;
+      let hi = beforeBlock - 1;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (await existsAt(id, mid)) {
+          hi = mid;
+        } else {
+          lo = mid + 1;
+        }
+      }
+      const mintBlock = lo;
+      if (mintBlock === fromBlock && fromBlock > 0 && await existsAt(id, fromBlock - 1)) {
+        return `token ${tokenId} was minted before POSITION_HISTORY_FROM_BLOCK ${fromBlock}`;
+      }
+
+      const position = await manager.positions(id, { blockTag: mintBlock });
+      const positionKey = `${String(position.token0).toLowerCase()}|${String(position.token1).toLowerCase()}|${position.tickSpacing}`;
+      if (positionKey !== await getPoolKey()) {
+        return `token ${tokenId} belongs to another pool`;
+      }
+
+      const logs = await rpc.getLogs(
+        { address: managerAddress, topics: [increaseTopic, zeroPadValue(toBeHex(id), 32)] },
+        mintBlock,
+        beforeBlock - 1
+      );
+      if (logs.length === 0) {
+        return `no IncreaseLiquidity logs for token ${tokenId} from block ${mintBlock}`;
+      }
+
+      const timestamps = new Map<number, string>();
+      const actions: RecoveredAction[] = [];
+
+      // The first IncreaseLiquidity is emitted by the mint itself, later ones are top-ups
+      for (const log of logs) {
+        const event = managerInterface.parseLog({ topics: [...log.topics], data: log.data })!;
+        const blockNumber = Number(log.blockNumber);
+
+        if (!timestamps.has(blockNumber)) {
+          const block = await provider.getBlock(blockNumber);
+          if (!block) {
+            return `block ${blockNumber} not found`;
+          }
+          timestamps.set(blockNumber, new Date(block.timestamp * 1000).toISOString());
+        }
+
+        const amount0: bigint = event.args.amount0;
+        const amount1: bigint = event.args.amount1;
+        actions.push({
+          timestamp: timestamps.get(blockNumber)!,
+          block_number: blockNumber,
+          tx_index: Number(log.transactionIndex),
+          tx_hash: log.transactionHash,
+          action: actions.length === 0 ? "mint" : "increaseLiquidity",
+          log_index: Number(log.index),
+          token_id: tokenId,
+          tick_lower: String(position.tickLower),
+          tick_upper: String(position.tickUpper),
+          liquidity: String(event.args.liquidity),
+          amount0: amount0.toString(),
+          amount1: amount1.toString(),
+          amount0_dec: Number(amount0) / Math.pow(10, pool.token0.decimals),
+          amount1_dec: Number(amount1) / Math.pow(10, pool.token1.decimals),
+          fee0: "",
+          fee1: "",
+          fee0_dec: 0,
+          fee1_dec: 0,
+          details: "recovered_from_rpc",
+        });
+      }
+
+      return actions;
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Concentrated-liquidity position math (Uniswap V3 / Slipstream)
+ * Exact bigint ports of TickMath.getSqrtRatioAtTick and LiquidityAmounts, used to
+ * recompute a position's token amounts from its liquidity, tick range and the pool
+ * sqrtPriceX96, and to cross-check the amounts reported for mints and burns.
+ */
+
+import { PoolConfig } from "./pools";
+
+const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+export type AmountCheckStatus = "ok" | "mismatch" | "skipped";
+
+export interface AmountCheck {
+  expectedAmount0: number | null;
+  expectedAmount1: number | null;
+  status: AmountCheckStatus;
+}
+
+// sqrt(1.0001^tick) * 2^96, rounded up like the on-chain TickMath
+export function getSqrtRatioAtTick(tick: number): bigint {
+  const absTick = Math.abs(tick);
+  if (!Number.isInteger(tick) || absTick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+
+  let ratio = (absTick & 0x1) !== 0 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  if ((absTick & 0x2) !== 0) ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+  if ((absTick & 0x4) !== 0) ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+  if ((absTick & 0x8) !== 0) ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+  if ((absTick & 0x10) !== 0) ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+  if ((absTick & 0x20) !== 0) ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+  if ((absTick & 0x40) !== 0) ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+  if ((absTick & 0x80) !== 0) ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+  if ((absTick & 0x100) !== 0) ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+  if ((absTick & 0x200) !== 0) ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+  if ((absTick & 0x400) !== 0) ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+  if ((absTick & 0x800) !== 0) ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+  if ((absTick & 0x1000) !== 0) ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+  if ((absTick & 0x2000) !== 0) ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+  if ((absTick & 0x4000) !== 0) ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+  if ((absTick & 0x8000) !== 0) ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+  if ((absTick & 0x10000) !== 0) ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+  if ((absTick & 0x20000) !== 0) ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+  if ((absTick & 0x40000) !== 0) ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+  if ((absTick & 0x80000) !== 0) ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Q128.128 -> Q64.96, rounding up
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+export function getAmount0ForLiquidity(sqrtA: bigint, sqrtB: bigint, liquidity: bigint): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  return ((liquidity << 96n) * (sqrtB - sqrtA)) / sqrtB / sqrtA;
+}
+
+export function getAmount1ForLiquidity(sqrtA: bigint, sqrtB: bigint, liquidity: bigint): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  return (liquidity * (sqrtB - sqrtA)) / Q96;
+}
+
+// Raw token amounts held by `liquidity` in [tickLower, tickUpper) at the given pool price
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const sqrtA = getSqrtRatioAtTick(tickLower);
+  const sqrtB = getSqrtRatioAtTick(tickUpper);
+
+  if (sqrtPriceX96 <= sqrtA) {
+    // Below the range: all token0
+    return { amount0: getAmount0ForLiquidity(sqrtA, sqrtB, liquidity), amount1: 0n };
+  }
+  if (sqrtPriceX96 < sqrtB) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, sqrtB, liquidity),
+      amount1: getAmount1ForLiquidity(sqrtA, sqrtPriceX96, liquidity),
+    };
+  }
+  // Above the range: all token1
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(sqrtA, sqrtB, liquidity) };
+}
+
+// Same as getAmountsForLiquidity, in decimal token units of the pool
+export function getPositionAmounts(
+  pool: PoolConfig,
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amount0: number; amount1: number } {
+  const raw = getAmountsForLiquidity(sqrtPriceX96, tickLower, tickUpper, liquidity);
+  return {
+    amount0: Number(raw.amount0) / Math.pow(10, pool.token0.decimals),
+    amount1: Number(raw.amount1) / Math.pow(10, pool.token1.decimals),
+  };
+}
+
+function amountMatches(reported: number, expected: number, tolerance: number, decimals: number): boolean {
+  const diff = Math.abs(Math.abs(reported) - expected);
+  // Differences of a few base units are rounding (mints round up, burns round down)
+  if (diff <= 10 * Math.pow(10, -decimals)) {
+    return true;
+  }
+  return diff <= tolerance * Math.max(Math.abs(reported), expected);
+}
+
+// Compare reported mint/burn amounts against the position math at the pool price before the action
+export function checkPositionAmounts(
+  pool: PoolConfig,
+  row: { liquidity?: string; tick_lower: string; tick_upper: string; amount0_dec: number; amount1_dec: number },
+  sqrtPriceX96: bigint | null,
+  tolerance: number
+): AmountCheck {
+  const skipped: AmountCheck = { expectedAmount0: null, expectedAmount1: null, status: "skipped" };
+  if (sqrtPriceX96 === null || !row.liquidity || row.tick_lower === "" || row.tick_upper === "") {
+    return skipped;
+  }
+
+  const tickLower = parseInt(row.tick_lower);
+  const tickUpper = parseInt(row.tick_upper);
+  if (isNaN(tickLower) || isNaN(tickUpper) || tickLower >= tickUpper) {
+    return skipped;
+  }
+
+  let liquidity = BigInt(row.liquidity);
+  if (liquidity < 0n) liquidity = -liquidity;
+
+  const expected = getPositionAmounts(pool, sqrtPriceX96, tickLower, tickUpper, liquidity);
+  const ok = amountMatches(row.amount0_dec, expected.amount0, tolerance, pool.token0.decimals) &&
+             amountMatches(row.amount1_dec, expected.amount1, tolerance, pool.token1.decimals);
+
+  return { expectedAmount0: expected.amount0, expectedAmount1: expected.amount1, status: ok ? "ok" : "mismatch" };
+}
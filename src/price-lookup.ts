@@ -0,0 +1,80 @@
+/**
+ * Nearest-swap lookup over a sorted swap series
+ * Uses binary search on (blockNumber, index), so each lookup is O(log n)
+ * regardless of how many swaps were fetched for the window.
+ */
+
+export interface SwapEvent {
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+  sqrtPriceX96: bigint;
+  tick: number; // Pool tick after the swap
+}
+
+// Position of a log on chain, used as the search key
+type SwapPosition = Pick<SwapEvent, "blockNumber" | "index">;
+
+function comparePosition(a: SwapPosition, block: number, logIndex: number): number {
+  const blockDiff = a.blockNumber - block;
+  if (blockDiff !== 0) return blockDiff;
+  return a.index - logIndex;
+}
+
+// Sort swaps in place by block number and log index (required by the lookups below)
+export function sortSwaps<T extends SwapPosition>(swaps: T[]): T[] {
+  return swaps.sort((a, b) => comparePosition(a, b.blockNumber, b.index));
+}
+
+// Index of the first swap at or after (block, logIndex), or swaps.length if none
+function lowerBound(swaps: SwapPosition[], block: number, logIndex: number): number {
+  let lo = 0;
+  let hi = swaps.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (comparePosition(swaps[mid], block, logIndex) < 0) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+// Index of the first swap strictly after (block, logIndex), or swaps.length if none
+function upperBound(swaps: SwapPosition[], block: number, logIndex: number): number {
+  let lo = 0;
+  let hi = swaps.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (comparePosition(swaps[mid], block, logIndex) <= 0) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+// Closest swap strictly before (block, logIndex)
+export function findClosestSwapBefore<T extends SwapPosition>(swaps: T[], block: number, logIndex: number): T | null {
+  const i = lowerBound(swaps, block, logIndex) - 1;
+  return i >= 0 ? swaps[i] : null;
+}
+
+// Closest swap strictly after (block, logIndex)
+export function findClosestSwapAfter<T extends SwapPosition>(swaps: T[], block: number, logIndex: number): T | null {
+  const i = upperBound(swaps, block, logIndex);
+  return i < swaps.length ? swaps[i] : null;
+}
+
+// All swaps strictly after (fromBlock, fromIndex) and strictly before (toBlock, toIndex)
+export function getSwapsBetween<T extends SwapPosition>(
+  swaps: T[],
+  fromBlock: number,
+  fromIndex: number,
+  toBlock: number,
+  toIndex: number
+): T[] {
+  return swaps.slice(upperBound(swaps, fromBlock, fromIndex), lowerBound(swaps, toBlock, toIndex));
+}
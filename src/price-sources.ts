@@ -0,0 +1,172 @@
+/**
+ * Interchangeable price sources for the pool's base token (e.g. cbBTC)
+ * Selected per run with PRICE_SOURCE=swap|csv|chainlink|twap, so profit and IL
+ * can be recomputed under different pricing rules and compared.
+ * Prices are in quote token units (USD for pools with a stablecoin quote).
+ */
+
+import * as fs from "fs";
+import { Contract, JsonRpcProvider } from "ethers";
+import { parse } from "csv-parse/sync";
+import { SwapEvent, findClosestSwapBefore, findClosestSwapAfter, getSwapsBetween } from "./price-lookup";
+import { isDeposit } from "./position-actions";
+
+// The on-chain action a price is requested for
+export interface PriceRequest {
+  action: string;
+  block: number;
+  logIndex: number;
+  timestamp: string;
+}
+
+export interface PriceQuote {
+  price: number;
+  swap: SwapEvent | null; // Pool swap the price was derived from, if any
+}
+
+export interface PriceSource {
+  name: string; // Written to the price_source column
+  getPrice(request: PriceRequest): Promise<PriceQuote | null>;
+}
+
+export type PriceSourceType = "swap" | "csv" | "chainlink" | "twap";
+
+export const PRICE_SOURCE_TYPES: PriceSourceType[] = ["swap", "csv", "chainlink", "twap"];
+
+// Spot price from the nearest pool swap: before the action for deposits, after it otherwise
+export function createSwapPriceSource(swaps: SwapEvent[], toPrice: (sqrtPriceX96: bigint) => number): PriceSource {
+  return {
+    name: "swap",
+    async getPrice(request) {
+      const swap = isDeposit(request.action)
+        ? findClosestSwapBefore(swaps, request.block, request.logIndex)
+        : findClosestSwapAfter(swaps, request.block, request.logIndex);
+
+      return swap ? { price: toPrice(swap.sqrtPriceX96), swap } : null;
+    },
+  };
+}
+
+// Block-weighted average of the pool price over the windowBlocks blocks before the action
+export function createTwapPriceSource(
+  swaps: SwapEvent[],
+  toPrice: (sqrtPriceX96: bigint) => number,
+  windowBlocks: number
+): PriceSource {
+  return {
+    name: `twap_${windowBlocks}`,
+    async getPrice(request) {
+      const windowStart = request.block - windowBlocks;
+      const opening = findClosestSwapBefore(swaps, windowStart, 0);
+      const inWindow = getSwapsBetween(swaps, windowStart - 1, Number.MAX_SAFE_INTEGER, request.block, request.logIndex);
+
+      const first = opening || inWindow[0];
+      if (!first) {
+        return null;
+      }
+
+      // Each price holds from its swap's block until the next swap's block
+      let currentPrice = toPrice(first.sqrtPriceX96);
+      let currentBlock = windowStart;
+      let weightedSum = 0;
+      let totalWeight = 0;
+
+      for (const swap of inWindow) {
+        const weight = swap.blockNumber - currentBlock;
+        weightedSum += currentPrice * weight;
+        totalWeight += weight;
+        currentPrice = toPrice(swap.sqrtPriceX96);
+        currentBlock = swap.blockNumber;
+      }
+
+      const finalWeight = request.block - currentBlock;
+      weightedSum += currentPrice * finalWeight;
+      totalWeight += finalWeight;
+
+      const lastSwap = inWindow.length > 0 ? inWindow[inWindow.length - 1] : first;
+      return {
+        price: totalWeight > 0 ? weightedSum / totalWeight : currentPrice,
+        swap: lastSwap,
+      };
+    },
+  };
+}
+
+// Local price feed CSV with columns: timestamp (ISO or unix seconds), price
+// Uses the latest price point at or before the action (never looks ahead)
+export function createCsvPriceSource(csvPath: string): PriceSource {
+  if (!fs.existsSync(csvPath)) {
+    throw new Error(`Price feed file not found: ${csvPath}`);
+  }
+
+  const records: Array<{ timestamp: string; price: string }> = parse(fs.readFileSync(csvPath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+  });
+
+  const points = records
+    .map(r => ({ time: parseFeedTimestamp(r.timestamp), price: parseFloat(r.price) }))
+    .filter(p => !isNaN(p.time) && !isNaN(p.price))
+    .sort((a, b) => a.time - b.time);
+
+  if (points.length === 0) {
+    throw new Error(`Price feed file has no valid timestamp/price rows: ${csvPath}`);
+  }
+
+  return {
+    name: "csv",
+    async getPrice(request) {
+      const target = Math.floor(new Date(request.timestamp).getTime() / 1000);
+
+      let lo = 0;
+      let hi = points.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (points[mid].time <= target) {
+          lo = mid + 1;
+        } else {
+          hi = mid;
+        }
+      }
+
+      return lo > 0 ? { price: points[lo - 1].price, swap: null } : null;
+    },
+  };
+}
+
+function parseFeedTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  return Math.floor(new Date(value).getTime() / 1000);
+}
+
+// Chainlink-style aggregator read with eth_call at the action's block
+// Mints read the state of the previous block, matching the swap-before rule
+export function createChainlinkPriceSource(provider: JsonRpcProvider, feedAddress: string): PriceSource {
+  const feed = new Contract(feedAddress, [
+    "function decimals() view returns (uint8)",
+    "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  ], provider);
+
+  let decimals: number | null = null;
+  const priceByBlock = new Map<number, number>();
+
+  return {
+    name: "chainlink",
+    async getPrice(request) {
+      const blockTag = isDeposit(request.action) ? request.block - 1 : request.block;
+
+      if (decimals === null) {
+        decimals = Number(await feed.decimals());
+      }
+
+      if (!priceByBlock.has(blockTag)) {
+        const roundData = await feed.latestRoundData({ blockTag });
+        priceByBlock.set(blockTag, Number(roundData.answer) / Math.pow(10, decimals));
+      }
+
+      return { price: priceByBlock.get(blockTag)!, swap: null };
+    },
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Range shape analytics
+ * Groups positions into buckets by range width (tick_upper - tick_lower, and the price ratio
+ * across the range in %), by where the pool tick sat in the range at the mint (0 = tick_lower,
+ * 1 = tick_upper, as range_position_* in position_ranges) and by how long the position was
+ * open, with capital, fees, IL, profit and fee APR per bucket. Fee APR is the fees over the
+ * time integral of the position values (see returns.ts), annualized.
+ * analyze.ts writes the buckets of the complete positions to analysis_by_range_{label}.csv.
+ */
+
+import { siblingOutputPath } from "./output-paths";
+
+export type RangeDimension = "width" | "mint_position" | "duration";
+
+export const RANGE_DIMENSIONS: RangeDimension[] = ["width", "mint_position", "duration"];
+
+export interface RangePosition {
+  token_id: string;
+  tick_lower: number | null; // null when the mint row has no ticks
+  tick_upper: number | null;
+  mint_range_position: number | null; // Tick at the mint relative to the range, null when unknown
+  active_time_seconds: number;
+  deposit_value_usd: number;
+  capital_usd_seconds: number;
+  fees_usd: number;
+  impermanent_loss_usd: number;
+  profit_usd: number;
+}
+
+export interface RangeBucketStats {
+  dimension: RangeDimension;
+  bucket: string;
+  positions_count: number;
+  width_ticks_min: number | ""; // Of the positions in the bucket, blank without ticks
+  width_ticks_max: number | "";
+  width_pct_min: number | "";
+  width_pct_max: number | "";
+  deposit_value_usd: number;
+  avg_capital_deployed_usd: number; // Average value of a position while open
+  avg_active_time_seconds: number;
+  total_fees_usd: number;
+  impermanent_loss_usd: number;
+  profit_usd: number;
+  fee_apr: number | null; // %, null without capital deployed
+}
+
+interface BucketEdge {
+  label: string;
+  upTo: number; // Exclusive upper edge
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const UNKNOWN_BUCKET = "unknown";
+
+const WIDTH_PCT_EDGES: BucketEdge[] = [
+  { label: "<0.1%", upTo: 0.1 },
+  { label: "0.1-0.25%", upTo: 0.25 },
+  { label: "0.25-0.5%", upTo: 0.5 },
+  { label: "0.5-1%", upTo: 1 },
+  { label: "1-2%", upTo: 2 },
+  { label: "2-5%", upTo: 5 },
+  { label: "5-10%", upTo: 10 },
+  { label: "10-25%", upTo: 25 },
+  { label: ">=25%", upTo: Infinity },
+];
+
+const MINT_POSITION_EDGES: BucketEdge[] = [
+  { label: "below_range", upTo: 0 },
+  { label: "0-0.25", upTo: 0.25 },
+  { label: "0.25-0.5", upTo: 0.5 },
+  { label: "0.5-0.75", upTo: 0.75 },
+  { label: "0.75-1", upTo: 1 },
+  { label: "above_range", upTo: Infinity },
+];
+
+const DURATION_EDGES: BucketEdge[] = [
+  { label: "<5m", upTo: 5 * 60 },
+  { label: "5m-15m", upTo: 15 * 60 },
+  { label: "15m-1h", upTo: 60 * 60 },
+  { label: "1h-4h", upTo: 4 * 60 * 60 },
+  { label: "4h-12h", upTo: 12 * 60 * 60 },
+  { label: "12h-1d", upTo: 24 * 60 * 60 },
+  { label: "1d-7d", upTo: 7 * 24 * 60 * 60 },
+  { label: ">=7d", upTo: Infinity },
+];
+
+// analysis_by_range file next to an analysis_by_position file (same label)
+export function rangeBucketsPath(positionAnalysisPath: string): string {
+  return siblingOutputPath(positionAnalysisPath, "analysis_by_range", "analysis_by_position");
+}
+
+function widthTicks(position: RangePosition): number | null {
+  return position.tick_lower !== null && position.tick_upper !== null && position.tick_upper > position.tick_lower
+    ? position.tick_upper - position.tick_lower
+    : null;
+}
+
+// Price ratio between the range edges in %
+function widthPct(ticks: number): number {
+  return (Math.pow(1.0001, ticks) - 1) * 100;
+}
+
+function bucketOf(value: number | null, edges: BucketEdge[]): string {
+  if (value === null || isNaN(value)) return UNKNOWN_BUCKET;
+  return edges.find(edge => value < edge.upTo)!.label;
+}
+
+function dimensionValue(position: RangePosition, dimension: RangeDimension): number | null {
+  switch (dimension) {
+    case "width": {
+      const ticks = widthTicks(position);
+      return ticks !== null ? widthPct(ticks) : null;
+    }
+    case "mint_position":
+      return position.mint_range_position;
+    case "duration":
+      return position.active_time_seconds;
+  }
+}
+
+const DIMENSION_EDGES: Record<RangeDimension, BucketEdge[]> = {
+  width: WIDTH_PCT_EDGES,
+  mint_position: MINT_POSITION_EDGES,
+  duration: DURATION_EDGES,
+};
+
+function bucketStats(dimension: RangeDimension, bucket: string, positions: RangePosition[]): RangeBucketStats {
+  const widths = positions.map(widthTicks).filter((w): w is number => w !== null);
+  const activeSeconds = positions.reduce((sum, p) => sum + p.active_time_seconds, 0);
+  const capitalUsdSeconds = positions.reduce((sum, p) => sum + p.capital_usd_seconds, 0);
+  const fees = positions.reduce((sum, p) => sum + p.fees_usd, 0);
+
+  return {
+    dimension,
+    bucket,
+    positions_count: positions.length,
+    width_ticks_min: widths.length > 0 ? Math.min(...widths) : "",
+    width_ticks_max: widths.length > 0 ? Math.max(...widths) : "",
+    width_pct_min: widths.length > 0 ? widthPct(Math.min(...widths)) : "",
+    width_pct_max: widths.length > 0 ? widthPct(Math.max(...widths)) : "",
+    deposit_value_usd: positions.reduce((sum, p) => sum + p.deposit_value_usd, 0),
+    avg_capital_deployed_usd: activeSeconds > 0 ? capitalUsdSeconds / activeSeconds : 0,
+    avg_active_time_seconds: activeSeconds / positions.length,
+    total_fees_usd: fees,
+    impermanent_loss_usd: positions.reduce((sum, p) => sum + p.impermanent_loss_usd, 0),
+    profit_usd: positions.reduce((sum, p) => sum + p.profit_usd, 0),
+    fee_apr: capitalUsdSeconds > 0 ? (fees / capitalUsdSeconds) * SECONDS_PER_YEAR * 100 : null,
+  };
+}
+
+// Non-empty buckets of every dimension, in edge order with "unknown" last
+export function calculateRangeBuckets(positions: RangePosition[]): RangeBucketStats[] {
+  const stats: RangeBucketStats[] = [];
+
+  for (const dimension of RANGE_DIMENSIONS) {
+    const labels = [...DIMENSION_EDGES[dimension].map(edge => edge.label), UNKNOWN_BUCKET];
+    const byBucket = new Map<string, RangePosition[]>();
+    for (const position of positions) {
+      const bucket = bucketOf(dimensionValue(position, dimension), DIMENSION_EDGES[dimension]);
+      byBucket.set(bucket, [...(byBucket.get(bucket) || []), position]);
+    }
+    for (const label of labels) {
+      const members = byBucket.get(label);
+      if (members) {
+        stats.push(bucketStats(dimension, label, members));
+      }
+    }
+  }
+
+  return stats;
+}
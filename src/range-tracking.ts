@@ -0,0 +1,196 @@
+/**
+ * In-range time tracking per position
+ * Replays the pool tick from the Swap events over each position's lifetime (first mint to
+ * last burn, or to the end of the observed window while still open) and reports how long it
+ * spent in and out of [tick_lower, tick_upper), how often it left the range, and where the
+ * price moved relative to the range. index.ts writes the result to position_ranges_{label}.csv
+ * and analyze.ts joins it into analysis_by_position.
+ */
+
+import { SwapEvent, findClosestSwapBefore, getSwapsBetween } from "./price-lookup";
+import { BASE_BLOCK_TIME_SECONDS } from "./chain-constants";
+import { siblingOutputPath } from "./output-paths";
+
+export interface PositionLifetime {
+  tokenId: string;
+  tickLower: number;
+  tickUpper: number;
+  startBlock: number; // First mint
+  startIndex: number;
+  endBlock: number; // Last burn, or the end of the observed window for open positions
+  endIndex: number;
+  open: boolean;
+}
+
+export interface RangeStats {
+  token_id: string;
+  tick_lower: number;
+  tick_upper: number;
+  open: boolean;
+  seconds_tracked: number; // Lifetime covered by a known pool tick
+  seconds_in_range: number;
+  seconds_out_of_range: number;
+  seconds_below_range: number;
+  seconds_above_range: number;
+  seconds_out_of_range_at_end: number; // Out of range without a break up to the burn (or window end)
+  pct_time_in_range: number | ""; // Of seconds_tracked
+  range_exits: number;
+  min_tick: number | "";
+  max_tick: number | "";
+  // Tick relative to the range: 0 = tick_lower, 1 = tick_upper, outside [0, 1) = out of range
+  range_position_start: number | "";
+  range_position_end: number | "";
+  range_position_min: number | "";
+  range_position_max: number | "";
+  range_position_avg: number | ""; // Time-weighted
+}
+
+export const RANGE_STATS_COLUMNS: Array<keyof RangeStats> = [
+  "token_id",
+  "tick_lower",
+  "tick_upper",
+  "open",
+  "seconds_tracked",
+  "seconds_in_range",
+  "seconds_out_of_range",
+  "seconds_below_range",
+  "seconds_above_range",
+  "seconds_out_of_range_at_end",
+  "pct_time_in_range",
+  "range_exits",
+  "min_tick",
+  "max_tick",
+  "range_position_start",
+  "range_position_end",
+  "range_position_min",
+  "range_position_max",
+  "range_position_avg",
+];
+
+interface LifetimeAction {
+  block_number: number;
+  log_index: number;
+  action: string;
+  token_id: string;
+  tick_lower: string;
+  tick_upper: string;
+}
+
+// position_ranges file next to a transaction_details file (same label)
+export function positionRangesPath(transactionDetailsPath: string): string {
+  return siblingOutputPath(transactionDetailsPath, "position_ranges");
+}
+
+// Lifetimes of positions minted in the actions (pre-existing positions have no known range)
+export function getPositionLifetimes(actions: LifetimeAction[], windowEndBlock: number): PositionLifetime[] {
+  const lifetimes = new Map<string, PositionLifetime>();
+
+  for (const action of actions) {
+    if (!action.token_id) continue;
+    const lifetime = lifetimes.get(action.token_id);
+
+    if (action.action === "mint" && !lifetime) {
+      const tickLower = parseInt(action.tick_lower);
+      const tickUpper = parseInt(action.tick_upper);
+      if (isNaN(tickLower) || isNaN(tickUpper) || tickLower >= tickUpper) continue;
+
+      lifetimes.set(action.token_id, {
+        tokenId: action.token_id,
+        tickLower,
+        tickUpper,
+        startBlock: action.block_number,
+        startIndex: action.log_index,
+        endBlock: windowEndBlock,
+        endIndex: Number.MAX_SAFE_INTEGER,
+        open: true,
+      });
+    } else if (action.action === "burn" && lifetime) {
+      lifetime.endBlock = action.block_number;
+      lifetime.endIndex = action.log_index;
+      lifetime.open = false;
+    }
+  }
+
+  return [...lifetimes.values()];
+}
+
+function rangePosition(tick: number, lifetime: PositionLifetime): number {
+  return (tick - lifetime.tickLower) / (lifetime.tickUpper - lifetime.tickLower);
+}
+
+// Replay the pool tick over one lifetime; swaps must be sorted (see sortSwaps)
+export function computeRangeStats(swaps: SwapEvent[], lifetime: PositionLifetime): RangeStats {
+  const before = findClosestSwapBefore(swaps, lifetime.startBlock, lifetime.startIndex);
+  const during = getSwapsBetween(swaps, lifetime.startBlock, lifetime.startIndex, lifetime.endBlock, lifetime.endIndex);
+
+  // Time and exits follow the tick at the end of each block, so a swap that is reverted within
+  // the same block (e.g. a sandwich) doesn't count as leaving the range; min/max use every swap
+  const blockTicks: Array<{ block: number; tick: number }> = [];
+  if (before) {
+    blockTicks.push({ block: lifetime.startBlock, tick: before.tick });
+  }
+  for (const swap of during) {
+    const last = blockTicks[blockTicks.length - 1];
+    if (last && last.block === swap.blockNumber) {
+      last.tick = swap.tick;
+    } else {
+      blockTicks.push({ block: swap.blockNumber, tick: swap.tick });
+    }
+  }
+
+  const ticks = [...(before ? [before.tick] : []), ...during.map(s => s.tick)];
+  const isInRange = (tick: number) => tick >= lifetime.tickLower && tick < lifetime.tickUpper;
+
+  let secondsIn = 0;
+  let secondsBelow = 0;
+  let secondsAbove = 0;
+  let weightedPosition = 0;
+  let secondsOutAtEnd = 0;
+  let exits = 0;
+
+  blockTicks.forEach((point, i) => {
+    const nextBlock = i + 1 < blockTicks.length ? blockTicks[i + 1].block : lifetime.endBlock;
+    const seconds = Math.max(0, nextBlock - point.block) * BASE_BLOCK_TIME_SECONDS;
+    secondsOutAtEnd = isInRange(point.tick) ? 0 : secondsOutAtEnd + seconds;
+
+    if (isInRange(point.tick)) {
+      secondsIn += seconds;
+    } else if (point.tick < lifetime.tickLower) {
+      secondsBelow += seconds;
+    } else {
+      secondsAbove += seconds;
+    }
+    weightedPosition += rangePosition(point.tick, lifetime) * seconds;
+
+    if (i > 0 && isInRange(blockTicks[i - 1].tick) && !isInRange(point.tick)) {
+      exits++;
+    }
+  });
+
+  const secondsTracked = secondsIn + secondsBelow + secondsAbove;
+  // Reduced rather than spread: a busy pool can have more swaps in a lifetime than call arguments fit
+  const minTick = ticks.length > 0 ? ticks.reduce((min, tick) => Math.min(min, tick)) : null;
+  const maxTick = ticks.length > 0 ? ticks.reduce((max, tick) => Math.max(max, tick)) : null;
+
+  return {
+    token_id: lifetime.tokenId,
+    tick_lower: lifetime.tickLower,
+    tick_upper: lifetime.tickUpper,
+    open: lifetime.open,
+    seconds_tracked: secondsTracked,
+    seconds_in_range: secondsIn,
+    seconds_out_of_range: secondsBelow + secondsAbove,
+    seconds_below_range: secondsBelow,
+    seconds_above_range: secondsAbove,
+    seconds_out_of_range_at_end: secondsOutAtEnd,
+    pct_time_in_range: secondsTracked > 0 ? (secondsIn / secondsTracked) * 100 : "",
+    range_exits: exits,
+    min_tick: minTick ?? "",
+    max_tick: maxTick ?? "",
+    range_position_start: blockTicks.length > 0 ? rangePosition(blockTicks[0].tick, lifetime) : "",
+    range_position_end: blockTicks.length > 0 ? rangePosition(blockTicks[blockTicks.length - 1].tick, lifetime) : "",
+    range_position_min: minTick !== null ? rangePosition(minTick, lifetime) : "",
+    range_position_max: maxTick !== null ? rangePosition(maxTick, lifetime) : "",
+    range_position_avg: secondsTracked > 0 ? weightedPosition / secondsTracked : "",
+  };
+}
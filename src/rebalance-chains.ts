@@ -0,0 +1,200 @@
+/**
+ * Rebalance chain detection
+ * Active strategies burn a position and mint its replacement moments later, so consecutive
+ * token_ids are one strategy leg after another. A burn is linked to the mints in the same
+ * transaction, or else to the first mints within REBALANCE_MAX_GAP_SECONDS (default 60) whose
+ * combined deposit matches the withdrawal within REBALANCE_AMOUNT_TOLERANCE (relative, default
+ * 0.1). Each link is a rebalance episode; linked positions form a chain, with the P&L of the
+ * positions closed so far accumulated along it.
+ * analyze.ts writes the episodes to rebalance_episodes_{label}.csv.
+ */
+
+import { siblingOutputPath } from "./output-paths";
+
+export interface RebalanceLeg {
+  token_id: string;
+  mint_time: number | null; // ms, null for pre-existing positions
+  mint_tx: string;
+  mint_value_usd: number;
+  burn_time: number | null; // ms, null while unclosed
+  burn_tx: string;
+  burn_value_usd: number;
+  burn_price: number; // Base token price at the burn
+  tick_lower: number | null;
+  tick_upper: number | null;
+  range_position_end: number | null; // Tick at the burn relative to the range (position_ranges)
+  seconds_out_of_range_at_end: number | null; // From position_ranges, null without range tracking
+  profit_usd: number | null; // Realized, or unrealized when marked; null while unclosed and unmarked
+  gas_usd: number;
+}
+
+export interface RebalanceEpisode {
+  chain_id: number;
+  episode: number; // 1-based within the chain
+  timestamp: string; // Burn
+  closed_token_id: string;
+  opened_token_ids: string[];
+  same_tx: boolean;
+  gap_seconds: number; // Burn to the last linked mint
+  withdraw_value_usd: number;
+  deposit_value_usd: number;
+  trigger_price: number;
+  trigger_range_position: number | null;
+  seconds_out_of_range_before: number | null;
+  old_tick_lower: number | null;
+  old_tick_upper: number | null;
+  new_tick_lower: number | null; // Lowest tick_lower of the opened positions
+  new_tick_upper: number | null; // Highest tick_upper
+  range_shift_ticks: number | null; // New range center - old range center
+  range_shift_pct: number | null; // Price ratio of the centers in %, in token1/token0 terms
+  width_change_ticks: number | null;
+  chain_profit_usd: number; // Positions of the chain burned up to and including this episode
+  chain_gas_usd: number;
+}
+
+export interface RebalanceChain {
+  chain_id: number;
+  token_ids: string[];
+  episodes: number;
+  profit_usd: number; // Positions with a known profit
+  gas_usd: number;
+  open: boolean; // Some position has no profit yet (unclosed and unmarked)
+}
+
+export interface RebalanceConfig {
+  maxGapSeconds: number;
+  amountTolerance: number;
+}
+
+export function getRebalanceConfig(): RebalanceConfig {
+  const gapValue = process.env.REBALANCE_MAX_GAP_SECONDS || "60";
+  const toleranceValue = process.env.REBALANCE_AMOUNT_TOLERANCE || "0.1";
+  const maxGapSeconds = parseFloat(gapValue);
+  const amountTolerance = parseFloat(toleranceValue);
+  if (isNaN(maxGapSeconds) || maxGapSeconds < 0) {
+    throw new Error(`Invalid REBALANCE_MAX_GAP_SECONDS "${gapValue}" (expected seconds, e.g. 60)`);
+  }
+  if (isNaN(amountTolerance) || amountTolerance < 0) {
+    throw new Error(`Invalid REBALANCE_AMOUNT_TOLERANCE "${toleranceValue}" (expected a relative tolerance, e.g. 0.1)`);
+  }
+  return { maxGapSeconds, amountTolerance };
+}
+
+// rebalance_episodes file next to an analysis_by_position file (same label)
+export function rebalanceEpisodesPath(positionAnalysisPath: string): string {
+  return siblingOutputPath(positionAnalysisPath, "rebalance_episodes", "analysis_by_position");
+}
+
+function amountsMatch(withdrawn: number, deposited: number, tolerance: number): boolean {
+  return Math.abs(deposited - withdrawn) <= tolerance * Math.max(withdrawn, deposited);
+}
+
+// Mints the burn of leg rolls into, or an empty list
+function findSuccessors(leg: RebalanceLeg, unlinked: RebalanceLeg[], config: RebalanceConfig): RebalanceLeg[] {
+  const sameTx = unlinked.filter(l => l.token_id !== leg.token_id && l.mint_tx === leg.burn_tx);
+  if (sameTx.length > 0) {
+    return sameTx;
+  }
+
+  const burnTime = leg.burn_time!;
+  const candidates = unlinked
+    .filter(l => l.token_id !== leg.token_id && l.mint_time! >= burnTime && l.mint_time! <= burnTime + config.maxGapSeconds * 1000)
+    .sort((a, b) => a.mint_time! - b.mint_time!);
+
+  // Shortest run of the next mints that redeploys the withdrawal
+  let deposited = 0;
+  for (let i = 0; i < candidates.length; i++) {
+    deposited += candidates[i].mint_value_usd;
+    if (amountsMatch(leg.burn_value_usd, deposited, config.amountTolerance)) {
+      return candidates.slice(0, i + 1);
+    }
+    if (deposited > leg.burn_value_usd * (1 + config.amountTolerance)) {
+      break;
+    }
+  }
+  return [];
+}
+
+function center(lower: number, upper: number): number {
+  return (lower + upper) / 2;
+}
+
+export function detectRebalances(
+  legs: RebalanceLeg[],
+  config: RebalanceConfig
+): { episodes: RebalanceEpisode[]; chains: RebalanceChain[] } {
+  const burned = legs.filter(l => l.burn_time !== null).sort((a, b) => a.burn_time! - b.burn_time!);
+  const unlinked = new Set(legs.filter(l => l.mint_time !== null));
+  const chainOf = new Map<string, number>();
+  const chainLegs = new Map<number, RebalanceLeg[]>();
+  const links: Array<{ chainId: number; closed: RebalanceLeg; opened: RebalanceLeg[] }> = [];
+
+  for (const leg of burned) {
+    const opened = findSuccessors(leg, [...unlinked], config);
+    if (opened.length === 0) continue;
+
+    // A position links into the chain of its predecessor, or starts a new one
+    let chainId = chainOf.get(leg.token_id);
+    if (chainId === undefined) {
+      chainId = chainLegs.size + 1;
+      chainOf.set(leg.token_id, chainId);
+      chainLegs.set(chainId, [leg]);
+    }
+    unlinked.delete(leg);
+    for (const next of opened) {
+      unlinked.delete(next);
+      chainOf.set(next.token_id, chainId);
+      chainLegs.get(chainId)!.push(next);
+    }
+    links.push({ chainId, closed: leg, opened });
+  }
+
+  const episodeCounts = new Map<number, number>();
+  const episodes: RebalanceEpisode[] = links.map(({ chainId, closed, opened }) => {
+    const episode = (episodeCounts.get(chainId) || 0) + 1;
+    episodeCounts.set(chainId, episode);
+
+    const burnTime = closed.burn_time!;
+    const closedSoFar = chainLegs.get(chainId)!.filter(l => l.burn_time !== null && l.burn_time <= burnTime);
+    const withTicks = opened.filter(l => l.tick_lower !== null && l.tick_upper !== null);
+    const newLower = withTicks.length > 0 ? Math.min(...withTicks.map(l => l.tick_lower!)) : null;
+    const newUpper = withTicks.length > 0 ? Math.max(...withTicks.map(l => l.tick_upper!)) : null;
+    const hasTicks = closed.tick_lower !== null && closed.tick_upper !== null && newLower !== null && newUpper !== null;
+    const shift = hasTicks ? center(newLower!, newUpper!) - center(closed.tick_lower!, closed.tick_upper!) : null;
+
+    return {
+      chain_id: chainId,
+      episode,
+      timestamp: new Date(burnTime).toISOString(),
+      closed_token_id: closed.token_id,
+      opened_token_ids: opened.map(l => l.token_id),
+      same_tx: opened.every(l => l.mint_tx === closed.burn_tx),
+      gap_seconds: Math.max(...opened.map(l => l.mint_time! - burnTime)) / 1000,
+      withdraw_value_usd: closed.burn_value_usd,
+      deposit_value_usd: opened.reduce((sum, l) => sum + l.mint_value_usd, 0),
+      trigger_price: closed.burn_price,
+      trigger_range_position: closed.range_position_end,
+      seconds_out_of_range_before: closed.seconds_out_of_range_at_end,
+      old_tick_lower: closed.tick_lower,
+      old_tick_upper: closed.tick_upper,
+      new_tick_lower: newLower,
+      new_tick_upper: newUpper,
+      range_shift_ticks: shift,
+      range_shift_pct: shift !== null ? (Math.pow(1.0001, shift) - 1) * 100 : null,
+      width_change_ticks: hasTicks ? (newUpper! - newLower!) - (closed.tick_upper! - closed.tick_lower!) : null,
+      chain_profit_usd: closedSoFar.reduce((sum, l) => sum + (l.profit_usd ?? 0), 0),
+      chain_gas_usd: closedSoFar.reduce((sum, l) => sum + l.gas_usd, 0),
+    };
+  });
+
+  const chains: RebalanceChain[] = [...chainLegs].map(([chainId, members]) => ({
+    chain_id: chainId,
+    token_ids: members.map(l => l.token_id),
+    episodes: episodeCounts.get(chainId) || 0,
+    profit_usd: members.reduce((sum, l) => sum + (l.profit_usd ?? 0), 0),
+    gas_usd: members.reduce((sum, l) => sum + l.gas_usd, 0),
+    open: members.some(l => l.profit_usd === null),
+  }));
+
+  return { episodes, chains };
+}
@@ -0,0 +1,113 @@
+/**
+ * Resume support for transaction details generation
+ * With RESUME=true, index.ts reprocesses only the actions listed in failed_actions.csv
+ * (with a wider swap window) and merges the recovered rows into the existing
+ * transaction_details file instead of redoing the whole run.
+ */
+
+import * as fs from "fs";
+import { parse } from "csv-parse/sync";
+
+export interface FailedActionRecord {
+  timestamp: string;
+  block: string;
+  tx_hash: string;
+  action: string;
+  log_index?: string; // Missing in failed_actions.csv files written before resume support
+  reason: string;
+}
+
+// Column definition as passed to csv-stringify
+export type OutputColumn = string | { key: string; header: string };
+
+interface ResumableAction {
+  block_number: number;
+  tx_hash: string;
+  action: string;
+  log_index: number;
+}
+
+// Swap window buffer for retried actions from RESUME_BUFFER_BLOCKS (default 50000)
+export function getResumeBufferBlocks(): number {
+  const value = process.env.RESUME_BUFFER_BLOCKS || "50000";
+  const blocks = Number(value);
+  if (!Number.isInteger(blocks) || blocks < 0) {
+    throw new Error(`Invalid RESUME_BUFFER_BLOCKS "${value}" (expected a non-negative number of blocks, e.g. 50000)`);
+  }
+  return blocks;
+}
+
+function columnKey(column: OutputColumn): string {
+  return typeof column === "string" ? column : column.key;
+}
+
+function columnHeader(column: OutputColumn): string {
+  return typeof column === "string" ? column : column.header;
+}
+
+export function readFailedActions(failedPath: string): FailedActionRecord[] {
+  if (!fs.existsSync(failedPath)) {
+    return [];
+  }
+  return parse(fs.readFileSync(failedPath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+  });
+}
+
+// Actions named in failed_actions.csv, matched on tx_hash + log_index (or block + tx_hash + action for older files)
+export function selectFailedActions<T extends ResumableAction>(
+  actions: T[],
+  failed: FailedActionRecord[]
+): { matched: T[]; missing: FailedActionRecord[] } {
+  const matched = new Set<T>();
+  const missing: FailedActionRecord[] = [];
+
+  for (const record of failed) {
+    const hash = record.tx_hash.toLowerCase();
+    const candidates = actions.filter(a => a.tx_hash.toLowerCase() === hash && !matched.has(a));
+    const action = record.log_index !== undefined && record.log_index !== ""
+      ? candidates.find(a => a.log_index === parseInt(record.log_index!))
+      : candidates.find(a => a.block_number === parseInt(record.block) && a.action === record.action);
+
+    if (action) {
+      matched.add(action);
+    } else {
+      missing.push(record);
+    }
+  }
+
+  // Keep the original processing order
+  return { matched: actions.filter(a => matched.has(a)), missing };
+}
+
+// Existing transaction_details rows keyed by column key (e.g. "base_price" for the "cbBTC_price" header)
+export function readTransactionRows(outputPath: string, columns: OutputColumn[]): Record<string, string>[] {
+  const records: Record<string, string>[] = parse(fs.readFileSync(outputPath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+  });
+
+  return records.map(record => {
+    const row: Record<string, string> = {};
+    for (const column of columns) {
+      // Columns added after the file was written are left empty
+      row[columnKey(column)] = record[columnHeader(column)] ?? "";
+    }
+    return row;
+  });
+}
+
+// Merge recovered rows into the existing ones, ordered by block and log index
+export function mergeTransactionRows(
+  existing: Array<Record<string, any>>,
+  recovered: Array<Record<string, any>>
+): Array<Record<string, any>> {
+  const key = (row: Record<string, any>) => `${String(row.tx_hash).toLowerCase()}|${row.block_index}`;
+  const recoveredKeys = new Set(recovered.map(key));
+  const kept = existing.filter(row => !recoveredKeys.has(key(row)));
+
+  return [...kept, ...recovered].sort((a, b) =>
+    Number(a.block) - Number(b.block) || Number(a.block_index) - Number(b.block_index)
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Capital deployed and period returns of a set of LP positions
+ * A position's value is only observed at its liquidity actions: right after a deposit it is the
+ * previous value plus the deposit, and right before a withdrawal it is the amount withdrawn
+ * divided by the share of liquidity removed (all of it for a burn). In between, the value is
+ * interpolated linearly. Capital deployed is the time integral of that value path, so capital
+ * recycled many times a day counts for the time it was actually in a position.
+ * Modified Dietz and time-weighted returns treat deposits and withdrawals as external flows and
+ * fees and rewards as income paid out of the positions.
+ */
+
+export interface ValueEvent {
+  time: number; // ms
+  kind: "deposit" | "withdrawal";
+  value_usd: number;
+  liquidity: string; // Liquidity added or removed, blank when unknown
+  final: boolean; // burn: removes whatever is left
+}
+
+export interface ValuePoint {
+  time: number;
+  before: number; // Value just before the action
+  after: number; // Value just after it
+}
+
+export interface Income {
+  time: number;
+  amount: number; // Fees and rewards in USD
+}
+
+export function getValuePath(events: ValueEvent[]): ValuePoint[] {
+  const sorted = [...events].sort((a, b) => a.time - b.time);
+  const liquidities = sorted.map(e => Math.abs(Number(e.liquidity || 0)));
+  const knownLiquidity = liquidities.every(l => l > 0);
+  const path: ValuePoint[] = [];
+  let value = 0;
+  let liquidity = 0;
+
+  sorted.forEach((event, i) => {
+    let before = value;
+    if (event.kind === "deposit") {
+      liquidity += liquidities[i];
+    } else if (event.final) {
+      before = event.value_usd;
+    } else if (knownLiquidity && liquidity > 0) {
+      before = event.value_usd * liquidity / Math.min(liquidity, liquidities[i]);
+      liquidity -= liquidities[i];
+    } else {
+      before = Math.max(value, event.value_usd);
+    }
+
+    const after = event.kind === "deposit"
+      ? before + event.value_usd
+      : (event.final ? 0 : Math.max(0, before - event.value_usd));
+    path.push({ time: event.time, before, after });
+    value = after;
+  });
+
+  return path;
+}
+
+// Value at time, just before ("before") or just after ("after") any actions at that time
+export function valueAt(path: ValuePoint[], time: number, side: "before" | "after"): number {
+  if (path.length === 0 || time < path[0].time || (time === path[0].time && side === "before")) {
+    return 0;
+  }
+
+  const atTime = path.filter(p => p.time === time);
+  if (atTime.length > 0) {
+    return side === "before" ? atTime[0].before : atTime[atTime.length - 1].after;
+  }
+
+  const next = path.findIndex(p => p.time > time);
+  if (next === -1) {
+    return path[path.length - 1].after;
+  }
+  const prev = path[next - 1];
+  const fraction = (time - prev.time) / (path[next].time - prev.time);
+  return prev.after + (path[next].before - prev.after) * fraction;
+}
+
+// Time integral of the value in USD·seconds
+export function integrateValue(path: ValuePoint[]): number {
+  let integral = 0;
+  for (let i = 1; i < path.length; i++) {
+    integral += (path[i - 1].after + path[i].before) / 2 * (path[i].time - path[i - 1].time) / 1000;
+  }
+  return integral;
+}
+
+// Modified Dietz return over [start, end] as a percentage: gain over the starting value plus the
+// flows weighted by the share of the period they were invested
+export function modifiedDietzReturn(
+  paths: ValuePoint[][],
+  income: Income[],
+  start: number,
+  end: number
+): number | null {
+  if (end <= start) return null;
+
+  const startValue = paths.reduce((sum, path) => sum + valueAt(path, start, "before"), 0);
+  const endValue = paths.reduce((sum, path) => sum + valueAt(path, end, "after"), 0);
+  let netFlows = 0;
+  let weightedFlows = 0;
+
+  for (const path of paths) {
+    path.filter(p => p.time >= start && p.time <= end).forEach(point => {
+      const flow = point.after - point.before; // Deposits positive, withdrawals negative
+      netFlows += flow;
+      weightedFlows += flow * (end - point.time) / (end - start);
+    });
+  }
+
+  const gain = endValue - startValue - netFlows + income.reduce((sum, i) => sum + i.amount, 0);
+  const base = startValue + weightedFlows;
+  return base > 0 ? (gain / base) * 100 : null;
+}
+
+// valueAt for one path at non-decreasing times, walking the path once with moving indexes
+function createValueCursor(path: ValuePoint[]): (time: number, side: "before" | "after") => number {
+  let first = 0; // First point at or after the time
+  let next = 0; // First point after the time
+
+  return (time, side) => {
+    while (first < path.length && path[first].time < time) first++;
+    next = Math.max(next, first);
+    while (next < path.length && path[next].time <= time) next++;
+
+    if (next === 0 || (first === 0 && side === "before")) {
+      return 0;
+    }
+    if (first < next) {
+      return side === "before" ? path[first].before : path[next - 1].after;
+    }
+    if (first === path.length) {
+      return path[path.length - 1].after;
+    }
+    const prev = path[first - 1];
+    const fraction = (time - prev.time) / (path[first].time - prev.time);
+    return prev.after + (path[first].before - prev.after) * fraction;
+  };
+}
+
+// Time-weighted return as a percentage: sub-period returns between flow times, chained.
+// Income goes to the last sub-period with capital that started before it.
+export function timeWeightedReturn(paths: ValuePoint[][], income: Income[]): number | null {
+  const flowTimes = [...new Set(paths.flatMap(path => path.map(p => p.time)))].sort((a, b) => a - b);
+  const cursors = paths.map(createValueCursor);
+  const periods: Array<{ start: number; end: number; startValue: number; endValue: number; income: number }> = [];
+
+  for (let i = 0; i + 1 < flowTimes.length; i++) {
+    const startValue = cursors.reduce((sum, valueOf) => sum + valueOf(flowTimes[i], "after"), 0);
+    if (startValue <= 0) continue;
+    const endValue = cursors.reduce((sum, valueOf) => sum + valueOf(flowTimes[i + 1], "before"), 0);
+    periods.push({ start: flowTimes[i], end: flowTimes[i + 1], startValue, endValue, income: 0 });
+  }
+  if (periods.length === 0) return null;
+
+  for (const item of income) {
+    // Binary search for the last period starting before the income, the first one if none does
+    let low = 0;
+    let high = periods.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (periods[mid].start < item.time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    periods[low].income += item.amount;
+  }
+
+  const growth = periods.reduce((product, p) => product * (p.endValue + p.income) / p.startValue, 1);
+  return (growth - 1) * 100;
+}
@@ -0,0 +1,315 @@
+/**
+ * Join of the earnings file onto actions, and attribution of AERO rewards to positions
+ * Rows are matched on tx_hash + log_index when the earnings file carries them, otherwise on
+ * normalized timestamp + action + token_id, so formatting differences between the two CSVs
+ * (ISO vs "YYYY-MM-DD HH:MM:SS", unix seconds, "123.0" token ids, hash case) still match.
+ * gauge_getReward actions without a token_id get one from the other actions of the same
+ * transaction, or failing that from the inpos0/inpos1 amounts of their earnings row.
+ * Earnings rows and actions that could not be joined are collected for the unmatched reports.
+ */
+
+export type AttributionMethod = "direct" | "tx_hash" | "inpos" | "unattributed";
+export type AttributionConfidence = "high" | "medium" | "low" | "none";
+
+// Action fields used for attribution (subset of the actions CSV row)
+export interface AttributionAction {
+  timestamp: string;
+  block_number: number;
+  tx_hash: string;
+  action: string;
+  log_index: number;
+  token_id: string;
+  amount0_dec: number;
+  amount1_dec: number;
+}
+
+// Earnings fields used for attribution; tx_hash and log_index are optional columns
+export interface AttributionEarning {
+  timestamp: string;
+  action: string;
+  token_id: string;
+  reward: number;
+  inpos0: number;
+  inpos1: number;
+  tx_hash?: string;
+  log_index?: string | number;
+}
+
+export interface RewardAttribution {
+  tokenId: string;
+  reward: number;
+  method: AttributionMethod;
+  confidence: AttributionConfidence;
+}
+
+export interface UnmatchedEarning {
+  line: number; // Line in the earnings CSV (header is line 1)
+  earning: AttributionEarning;
+  reason: string; // duplicate_of_line_N, action_not_processed or no_matching_action
+}
+
+export interface UnmatchedAction {
+  action: AttributionAction;
+  reward: number;
+  reason: string; // no_earnings_row or token_id_unattributed
+}
+
+export interface RewardAttributor {
+  attribute(action: AttributionAction): RewardAttribution;
+  // Earnings rows never used by attribute(), to be called once all actions are processed
+  getUnmatchedEarnings(): UnmatchedEarning[];
+  getUnmatchedActions(): UnmatchedAction[];
+}
+
+const INPOS_MATCH_TOLERANCE = 0.01; // Relative amount difference accepted as a confident inpos match
+const CONFIDENCE_ORDER: AttributionConfidence[] = ["none", "low", "medium", "high"];
+
+// Unix seconds as a string; "YYYY-MM-DD HH:MM:SS" without zone is read as UTC like the ISO timestamps
+export function normalizeTimestamp(value: string): string {
+  const trimmed = String(value).trim();
+  if (/^\d+$/.test(trimmed)) {
+    // Unix seconds, or milliseconds when 13+ digits
+    return String(trimmed.length >= 13 ? Math.floor(parseInt(trimmed) / 1000) : parseInt(trimmed));
+  }
+
+  const isoLike = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(trimmed)
+    ? trimmed.replace(" ", "T") + "Z"
+    : trimmed;
+  const ms = new Date(isoLike).getTime();
+  return isNaN(ms) ? trimmed : String(Math.floor(ms / 1000));
+}
+
+export function normalizeTokenId(value: string): string {
+  const trimmed = String(value ?? "").trim();
+  if (/^\d+(\.0+)?$/.test(trimmed)) {
+    return BigInt(trimmed.split(".")[0]).toString();
+  }
+  return trimmed;
+}
+
+function txKey(txHash: string, logIndex: string | number): string {
+  return `${String(txHash).trim().toLowerCase()}|${parseInt(String(logIndex))}`;
+}
+
+function actionKey(timestamp: string, action: string, tokenId: string): string {
+  return `${normalizeTimestamp(timestamp)}|${action.trim()}|${normalizeTokenId(tokenId)}`;
+}
+
+function hasTxColumns(row: AttributionEarning): boolean {
+  return !!row.tx_hash && row.log_index !== undefined && String(row.log_index).trim() !== "";
+}
+
+function lowerConfidence(a: AttributionConfidence, b: AttributionConfidence): AttributionConfidence {
+  return CONFIDENCE_ORDER.indexOf(a) < CONFIDENCE_ORDER.indexOf(b) ? a : b;
+}
+
+function relativeDiff(a: number, b: number): number {
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 ? 0 : Math.abs(a - b) / scale;
+}
+
+export function createRewardAttributor(
+  actions: AttributionAction[],
+  earnings: AttributionEarning[]
+): RewardAttributor {
+  const lineOf = new Map<AttributionEarning, number>();
+  earnings.forEach((row, i) => lineOf.set(row, i + 2));
+
+  // Earnings indexed by transaction position, and by timestamp + action + token_id as a fallback.
+  // A row whose key was already taken is a duplicate and never used.
+  const earningsByTx = new Map<string, AttributionEarning>();
+  const earningsByKey = new Map<string, AttributionEarning>();
+  const getRewardEarningsByTimestamp = new Map<string, AttributionEarning[]>();
+  const duplicates = new Map<AttributionEarning, AttributionEarning>(); // duplicate -> first row with its key
+
+  for (const row of earnings) {
+    if (hasTxColumns(row)) {
+      const key = txKey(row.tx_hash!, row.log_index!);
+      const first = earningsByTx.get(key);
+      if (first) {
+        duplicates.set(row, first);
+        continue;
+      }
+      earningsByTx.set(key, row);
+    }
+
+    if (row.action === "gauge_getReward" && !normalizeTokenId(row.token_id)) {
+      // Several getRewards can share a second, these are paired by order instead of by key
+      const timestamp = normalizeTimestamp(row.timestamp);
+      const rows = getRewardEarningsByTimestamp.get(timestamp) || [];
+      rows.push(row);
+      getRewardEarningsByTimestamp.set(timestamp, rows);
+      continue;
+    }
+
+    const key = actionKey(row.timestamp, row.action, row.token_id);
+    const first = earningsByKey.get(key);
+    if (first) {
+      if (!hasTxColumns(row)) {
+        duplicates.set(row, first);
+      }
+      continue;
+    }
+    earningsByKey.set(key, row);
+  }
+
+  // Actions grouped by transaction, and unattributed gauge_getRewards grouped by timestamp (in log order)
+  const actionsByTx = new Map<string, AttributionAction[]>();
+  const getRewardsByTimestamp = new Map<string, AttributionAction[]>();
+  const actionKeys = new Set<string>();
+
+  for (const action of actions) {
+    const hash = action.tx_hash.toLowerCase();
+    const txActions = actionsByTx.get(hash) || [];
+    txActions.push(action);
+    actionsByTx.set(hash, txActions);
+
+    actionKeys.add(txKey(action.tx_hash, action.log_index));
+    actionKeys.add(actionKey(action.timestamp, action.action, action.token_id));
+
+    if (action.action === "gauge_getReward" && !normalizeTokenId(action.token_id)) {
+      const timestamp = normalizeTimestamp(action.timestamp);
+      const sameSecond = getRewardsByTimestamp.get(timestamp) || [];
+      sameSecond.push(action);
+      getRewardsByTimestamp.set(timestamp, sameSecond);
+    }
+  }
+  for (const sameSecond of getRewardsByTimestamp.values()) {
+    sameSecond.sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+  }
+
+  // Latest mint per position, the amounts compared against inpos0/inpos1
+  const positionMints = new Map<string, AttributionAction>();
+  for (const action of actions) {
+    const tokenId = normalizeTokenId(action.token_id);
+    if (action.action === "mint" && tokenId) {
+      const existing = positionMints.get(tokenId);
+      if (!existing || action.block_number > existing.block_number) {
+        positionMints.set(tokenId, action);
+      }
+    }
+  }
+
+  const matched = new Set<AttributionEarning>();
+  const unmatchedActions: UnmatchedAction[] = [];
+
+  // Earnings row of a gauge_getReward without token_id; each row is handed out at most once
+  function findGetRewardEarning(action: AttributionAction): { row: AttributionEarning | null; confidence: AttributionConfidence } {
+    const byTx = earningsByTx.get(txKey(action.tx_hash, action.log_index));
+    if (byTx) {
+      return matched.has(byTx) ? { row: null, confidence: "none" } : { row: byTx, confidence: "high" };
+    }
+
+    // Without tx columns, pair the n-th getReward of a second with the n-th earnings row of that
+    // second; getRewards beyond the rows of their second get none
+    const timestamp = normalizeTimestamp(action.timestamp);
+    const rows = (getRewardEarningsByTimestamp.get(timestamp) || []).filter(r => !hasTxColumns(r));
+    const sameSecond = getRewardsByTimestamp.get(timestamp) || [];
+    const ordinal = sameSecond.indexOf(action);
+    if (ordinal < 0 || ordinal >= rows.length || matched.has(rows[ordinal])) {
+      return { row: null, confidence: "none" };
+    }
+
+    const paired = sameSecond.length === rows.length;
+    return { row: rows[ordinal], confidence: paired ? (rows.length === 1 ? "high" : "medium") : "low" };
+  }
+
+  // token_id from the other actions of the same transaction, nearest log index first
+  function inferFromTransaction(action: AttributionAction): { tokenId: string; confidence: AttributionConfidence } | null {
+    const siblings = (actionsByTx.get(action.tx_hash.toLowerCase()) || [])
+      .filter(a => a !== action && normalizeTokenId(a.token_id));
+    if (siblings.length === 0) {
+      return null;
+    }
+
+    const tokenIds = new Set(siblings.map(a => normalizeTokenId(a.token_id)));
+    siblings.sort((a, b) => Math.abs(a.log_index - action.log_index) - Math.abs(b.log_index - action.log_index));
+    return { tokenId: normalizeTokenId(siblings[0].token_id), confidence: tokenIds.size === 1 ? "high" : "medium" };
+  }
+
+  // token_id of the position minted before the action whose mint amounts best match inpos0/inpos1
+  function inferFromInpos(action: AttributionAction, earning: AttributionEarning | null): { tokenId: string; confidence: AttributionConfidence } | null {
+    if (!earning || (!earning.inpos0 && !earning.inpos1)) {
+      return null;
+    }
+
+    let best: { tokenId: string; diff: number } | null = null;
+    for (const [tokenId, mint] of positionMints) {
+      if (mint.block_number > action.block_number) continue;
+
+      const diff = Math.max(relativeDiff(mint.amount0_dec, earning.inpos0), relativeDiff(mint.amount1_dec, earning.inpos1));
+      if (!best || diff < best.diff) {
+        best = { tokenId, diff };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+    return { tokenId: best.tokenId, confidence: best.diff <= INPOS_MATCH_TOLERANCE ? "medium" : "low" };
+  }
+
+  function attribute(action: AttributionAction): RewardAttribution {
+    const tokenId = normalizeTokenId(action.token_id);
+
+    if (action.action !== "gauge_getReward" || tokenId) {
+      const row = earningsByTx.get(txKey(action.tx_hash, action.log_index))
+        || earningsByKey.get(actionKey(action.timestamp, action.action, action.token_id));
+      if (row) {
+        matched.add(row);
+      } else {
+        unmatchedActions.push({ action, reward: 0, reason: "no_earnings_row" });
+      }
+      return { tokenId: action.token_id, reward: row?.reward || 0, method: "direct", confidence: "high" };
+    }
+
+    const earning = findGetRewardEarning(action);
+    const reward = earning.row?.reward || 0;
+    if (earning.row) {
+      matched.add(earning.row);
+    } else {
+      unmatchedActions.push({ action, reward: 0, reason: "no_earnings_row" });
+    }
+
+    const fromTx = inferFromTransaction(action);
+    if (fromTx) {
+      return { tokenId: fromTx.tokenId, reward, method: "tx_hash", confidence: lowerConfidence(fromTx.confidence, earning.confidence) };
+    }
+
+    const fromInpos = inferFromInpos(action, earning.row);
+    if (fromInpos) {
+      return { tokenId: fromInpos.tokenId, reward, method: "inpos", confidence: lowerConfidence(fromInpos.confidence, earning.confidence) };
+    }
+
+    if (earning.row) {
+      unmatchedActions.push({ action, reward, reason: "token_id_unattributed" });
+    }
+    return { tokenId: "", reward, method: "unattributed", confidence: "none" };
+  }
+
+  function getUnmatchedEarnings(): UnmatchedEarning[] {
+    return earnings
+      .filter(row => !matched.has(row))
+      .map(row => {
+        const first = duplicates.get(row);
+        let reason: string;
+        if (first) {
+          reason = `duplicate_of_line_${lineOf.get(first)}`;
+        } else if (
+          (hasTxColumns(row) && actionKeys.has(txKey(row.tx_hash!, row.log_index!))) ||
+          actionKeys.has(actionKey(row.timestamp, row.action, row.token_id))
+        ) {
+          reason = "action_not_processed";
+        } else {
+          reason = "no_matching_action";
+        }
+        return { line: lineOf.get(row)!, earning: row, reason };
+      });
+  }
+
+  return {
+    attribute,
+    getUnmatchedEarnings,
+    getUnmatchedActions: () => unmatchedActions,
+  };
+}
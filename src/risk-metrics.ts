@@ -0,0 +1,96 @@
+/**
+ * Risk metrics of a wallet value series
+ * Max drawdown, volatility and Sharpe / Sortino ratios of the equity curve (see equity-curve.ts).
+ * Deposits there only move cash into positions, so the series has no external flows and the
+ * return between two points is the change in equity. Returns are annualized from the average
+ * spacing of the points; RISK_FREE_RATE is an annual percentage (default 0).
+ */
+
+export interface ValueSample {
+  time: number; // ms
+  value_usd: number;
+}
+
+export interface RiskMetrics {
+  max_drawdown_usd: number;
+  max_drawdown_pct: number; // Of the peak value
+  max_drawdown_seconds: number; // From the peak to the recovery, or to the end while not recovered
+  max_drawdown_recovered: boolean;
+  volatility_pct: number | null; // Annualized standard deviation of the returns
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+}
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export function getRiskFreeRate(): number {
+  const value = process.env.RISK_FREE_RATE || "0";
+  const rate = parseFloat(value);
+  if (isNaN(rate)) {
+    throw new Error(`Invalid RISK_FREE_RATE "${value}" (expected an annual percentage, e.g. 4.5)`);
+  }
+  return rate;
+}
+
+function maxDrawdown(samples: ValueSample[]): Pick<RiskMetrics, "max_drawdown_usd" | "max_drawdown_pct" | "max_drawdown_seconds" | "max_drawdown_recovered"> {
+  let peak = samples[0];
+  let worst = { peak: samples[0], troughIndex: 0, usd: 0, pct: 0 };
+
+  samples.forEach((sample, i) => {
+    if (sample.value_usd > peak.value_usd) {
+      peak = sample;
+    }
+    const drawdown = peak.value_usd - sample.value_usd;
+    const pct = peak.value_usd > 0 ? (drawdown / peak.value_usd) * 100 : 0;
+    if (pct > worst.pct) {
+      worst = { peak, troughIndex: i, usd: drawdown, pct };
+    }
+  });
+
+  const recovery = samples.slice(worst.troughIndex).find(s => s.value_usd >= worst.peak.value_usd);
+  const end = recovery || samples[samples.length - 1];
+  return {
+    max_drawdown_usd: worst.usd,
+    max_drawdown_pct: worst.pct,
+    max_drawdown_seconds: worst.usd > 0 ? (end.time - worst.peak.time) / 1000 : 0,
+    max_drawdown_recovered: worst.usd === 0 || recovery !== undefined,
+  };
+}
+
+// samples sorted by time; null with fewer than two samples
+export function calculateRiskMetrics(samples: ValueSample[], riskFreeRatePct: number): RiskMetrics | null {
+  if (samples.length < 2 || samples[samples.length - 1].time <= samples[0].time) {
+    return null;
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1].value_usd > 0) {
+      returns.push(samples[i].value_usd / samples[i - 1].value_usd - 1);
+    }
+  }
+
+  const periodsPerYear = MS_PER_YEAR / ((samples[samples.length - 1].time - samples[0].time) / (samples.length - 1));
+  const riskFreePerPeriod = Math.pow(1 + riskFreeRatePct / 100, 1 / periodsPerYear) - 1;
+  const excess = returns.map(r => r - riskFreePerPeriod);
+  const meanExcess = excess.reduce((sum, r) => sum + r, 0) / excess.length;
+
+  let volatility: number | null = null;
+  let sharpe: number | null = null;
+  let sortino: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+    const downside = Math.sqrt(excess.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / excess.length);
+    volatility = std * Math.sqrt(periodsPerYear) * 100;
+    sharpe = std > 0 ? (meanExcess / std) * Math.sqrt(periodsPerYear) : null;
+    sortino = downside > 0 ? (meanExcess / downside) * Math.sqrt(periodsPerYear) : null;
+  }
+
+  return {
+    ...maxDrawdown(samples),
+    volatility_pct: volatility,
+    sharpe_ratio: sharpe,
+    sortino_ratio: sortino,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * RPC endpoint pool with health tracking, failover and adaptive getLogs ranges
+ * Endpoints come from RPC_URLS (comma-separated, falls back to BASE_RPC_URL). A failing or
+ * rate-limited endpoint is put on a growing cooldown and requests move to the next healthy one.
+ * getLogs ranges start at LOG_CHUNK_SIZE blocks, halve when a provider rejects the range or
+ * result size (free tiers often cap at 2k blocks or 10k logs) and grow back on success.
+ */
+
+import { JsonRpcProvider, Log, Network } from "ethers";
+
+const BASE_CHAIN_ID = 8453;
+const MAX_COOLDOWN_MS = 60000;
+const MAX_ROUNDS = 5; // Passes over all endpoints before a request gives up
+const GROW_AFTER_SUCCESSES = 5; // Accepted getLogs ranges in a row before the range is doubled again
+
+interface RpcEndpoint {
+  url: string;
+  label: string; // Host only, so API keys in the URL path don't end up in logs
+  provider: JsonRpcProvider;
+  consecutiveFailures: number;
+  cooldownUntil: number; // Epoch ms before which the endpoint is skipped
+  requests: number;
+  errors: number;
+}
+
+export interface LogQuery {
+  address: string;
+  topics: string[];
+}
+
+export interface RpcPool {
+  getBlockNumber(): Promise<number>;
+  // getLogs over [fromBlock, toBlock], split into as many requests as the providers need
+  getLogs(query: LogQuery, fromBlock: number, toBlock: number): Promise<Log[]>;
+  // Raw JSON-RPC request, for fields ethers doesn't expose (e.g. the L1 fee in OP-stack receipts)
+  send(method: string, params: any[]): Promise<any>;
+  // Provider of the healthiest endpoint, for contract calls that don't go through the pool
+  getProvider(): JsonRpcProvider;
+  describe(): string;
+}
+
+// Flatten the nested messages ethers wraps JSON-RPC errors in
+function errorText(error: any): string {
+  return [error?.message, error?.shortMessage, error?.error?.message, error?.info?.error?.message]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function errorCode(error: any): number | undefined {
+  return error?.error?.code ?? error?.info?.error?.code ?? (typeof error?.code === "number" ? error.code : undefined);
+}
+
+export function isRateLimitError(error: any): boolean {
+  const text = errorText(error).toLowerCase();
+  return text.includes("rate limit") ||
+         text.includes("too many requests") ||
+         errorCode(error) === -32016;
+}
+
+// Provider rejected the block range or the number/size of results, retry with a smaller range
+export function isRangeLimitError(error: any): boolean {
+  const text = errorText(error);
+  return /too many (results|logs)|more than \d+ results|response size|block range|range (is )?too (large|wide|big)|exceed(s|ed)? (the )?max(imum)? (block )?range|limited to (a )?[\d,]+ (block )?range|query timeout/i.test(text);
+}
+
+export function getRpcUrls(): string[] {
+  const urls = (process.env.RPC_URLS || process.env.BASE_RPC_URL || "https://mainnet.base.org")
+    .split(",")
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+
+  if (urls.length === 0) {
+    throw new Error("No RPC endpoints configured (set BASE_RPC_URL or RPC_URLS)");
+  }
+  return urls;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function createRpcPool(urls: string[]): RpcPool {
+  const network = Network.from(BASE_CHAIN_ID);
+  const endpoints: RpcEndpoint[] = urls.map(url => ({
+    url,
+    label: hostOf(url),
+    provider: new JsonRpcProvider(url, network, { staticNetwork: network }),
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    requests: 0,
+    errors: 0,
+  }));
+
+  const maxChunk = parseInt(process.env.LOG_CHUNK_SIZE || "10000");
+  if (!(maxChunk > 0)) {
+    throw new Error(`Invalid LOG_CHUNK_SIZE: ${process.env.LOG_CHUNK_SIZE}`);
+  }
+  let chunkSize = maxChunk;
+  let successStreak = 0;
+
+  // Healthy endpoints first (in configured order), then those cooling down by earliest recovery
+  function rankEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    return [...endpoints].sort((a, b) => {
+      const aReady = a.cooldownUntil <= now;
+      const bReady = b.cooldownUntil <= now;
+      if (aReady !== bReady) return aReady ? -1 : 1;
+      if (!aReady) return a.cooldownUntil - b.cooldownUntil;
+      return a.consecutiveFailures - b.consecutiveFailures;
+    });
+  }
+
+  function markFailure(endpoint: RpcEndpoint, error: any): void {
+    endpoint.errors++;
+    endpoint.consecutiveFailures++;
+    const cooldown = Math.min(Math.pow(2, endpoint.consecutiveFailures - 1) * 1000, MAX_COOLDOWN_MS);
+    endpoint.cooldownUntil = Date.now() + cooldown;
+
+    const kind = isRateLimitError(error) ? "Rate limit hit" : `Request failed (${errorText(error).slice(0, 120)})`;
+    console.log(`    ⏳ ${kind} on ${endpoint.label}, cooling down ${cooldown}ms`);
+  }
+
+  // Run a request on the best endpoint, failing over to the others; range errors are not the endpoint's fault
+  async function withFailover<T>(request: (provider: JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: any;
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      for (const endpoint of rankEndpoints()) {
+        const wait = endpoint.cooldownUntil - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+        }
+
+        endpoint.requests++;
+        try {
+          const result = await request(endpoint.provider);
+          endpoint.consecutiveFailures = 0;
+          return result;
+        } catch (error: any) {
+          if (isRangeLimitError(error)) {
+            throw error;
+          }
+          lastError = error;
+          markFailure(endpoint, error);
+        }
+      }
+    }
+
+    throw lastError || new Error("Max retries exceeded");
+  }
+
+  return {
+    getBlockNumber() {
+      return withFailover(provider => provider.getBlockNumber());
+    },
+
+    async getLogs(query, fromBlock, toBlock) {
+      const logs: Log[] = [];
+      let start = fromBlock;
+
+      while (start <= toBlock) {
+        const end = Math.min(start + chunkSize - 1, toBlock);
+        try {
+          logs.push(...await withFailover(provider => provider.getLogs({
+            address: query.address,
+            topics: query.topics,
+            fromBlock: start,
+            toBlock: end,
+          })));
+          start = end + 1;
+          if (++successStreak >= GROW_AFTER_SUCCESSES && chunkSize < maxChunk) {
+            chunkSize = Math.min(chunkSize * 2, maxChunk);
+            successStreak = 0;
+          }
+        } catch (error: any) {
+          if (!isRangeLimitError(error) || end === start) {
+            throw error;
+          }
+          chunkSize = Math.max(1, Math.floor((end - start + 1) / 2));
+          successStreak = 0;
+          console.log(`    ⏳ Range ${start}-${end} rejected, retrying with ${chunkSize} blocks`);
+        }
+      }
+
+      return logs;
+    },
+
+    send(method, params) {
+      return withFailover(provider => provider.send(method, params));
+    },
+
+    getProvider() {
+      return rankEndpoints()[0].provider;
+    },
+
+    describe() {
+      return endpoints
+        .map(e => `${e.label} (${e.requests} requests, ${e.errors} errors)`)
+        .join(", ");
+    },
+  };
+}
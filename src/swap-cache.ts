@@ -0,0 +1,187 @@
+/**
+ * Persistent on-disk cache for pool Swap logs
+ * Each fetched block span is stored as a segment file under
+ * cache/swaps/{poolAddress}/{fromBlock}_{toBlock}.json, so repeated runs
+ * over the same range only query the RPC for blocks not yet covered.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// Raw Swap log fields we need to decode prices later
+export interface CachedSwapLog {
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+  data: string;
+}
+
+export interface CacheSegment {
+  pool: string;
+  fromBlock: number;
+  toBlock: number;
+  filePath: string;
+  sizeBytes: number;
+  modifiedAt: Date;
+}
+
+interface SegmentFile {
+  pool: string;
+  fromBlock: number;
+  toBlock: number;
+  fetchedAt: string;
+  logs: CachedSwapLog[];
+}
+
+const SEGMENT_FILE_PATTERN = /^(\d+)_(\d+)\.json$/;
+
+export function getSwapCacheDir(): string {
+  return process.env.SWAP_CACHE_DIR || path.join(__dirname, "..", "cache", "swaps");
+}
+
+// Set SWAP_CACHE=off to always query the RPC
+export function isSwapCacheEnabled(): boolean {
+  return (process.env.SWAP_CACHE || "").toLowerCase() !== "off";
+}
+
+function poolDir(pool: string): string {
+  return path.join(getSwapCacheDir(), pool.toLowerCase());
+}
+
+// List cached segments, optionally for a single pool, sorted by pool then fromBlock
+export function listCacheSegments(pool?: string): CacheSegment[] {
+  const baseDir = getSwapCacheDir();
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  const pools = pool
+    ? [pool.toLowerCase()]
+    : fs.readdirSync(baseDir).filter(f => fs.statSync(path.join(baseDir, f)).isDirectory());
+
+  const segments: CacheSegment[] = [];
+
+  for (const poolName of pools) {
+    const dir = path.join(baseDir, poolName);
+    if (!fs.existsSync(dir)) continue;
+
+    for (const file of fs.readdirSync(dir)) {
+      const match = file.match(SEGMENT_FILE_PATTERN);
+      if (!match) continue;
+
+      const filePath = path.join(dir, file);
+      const stat = fs.statSync(filePath);
+      segments.push({
+        pool: poolName,
+        fromBlock: parseInt(match[1]),
+        toBlock: parseInt(match[2]),
+        filePath,
+        sizeBytes: stat.size,
+        modifiedAt: stat.mtime,
+      });
+    }
+  }
+
+  segments.sort((a, b) => a.pool.localeCompare(b.pool) || a.fromBlock - b.fromBlock || a.toBlock - b.toBlock);
+  return segments;
+}
+
+// Return the [from, to] block spans inside the requested range that no segment covers yet
+export function findMissingRanges(pool: string, fromBlock: number, toBlock: number): Array<[number, number]> {
+  const missing: Array<[number, number]> = [];
+  let cursor = fromBlock;
+
+  for (const segment of listCacheSegments(pool)) {
+    if (cursor > toBlock) break;
+    if (segment.toBlock < cursor) continue;
+    if (segment.fromBlock > toBlock) break;
+
+    if (segment.fromBlock > cursor) {
+      missing.push([cursor, segment.fromBlock - 1]);
+    }
+    cursor = Math.max(cursor, segment.toBlock + 1);
+  }
+
+  if (cursor <= toBlock) {
+    missing.push([cursor, toBlock]);
+  }
+
+  return missing;
+}
+
+// Load all cached logs in the range, de-duplicated and sorted by (block, index)
+export function readCachedLogs(pool: string, fromBlock: number, toBlock: number): CachedSwapLog[] {
+  const byKey = new Map<string, CachedSwapLog>();
+
+  for (const segment of listCacheSegments(pool)) {
+    if (segment.toBlock < fromBlock || segment.fromBlock > toBlock) continue;
+
+    const content: SegmentFile = JSON.parse(fs.readFileSync(segment.filePath, "utf-8"));
+    for (const log of content.logs) {
+      if (log.blockNumber < fromBlock || log.blockNumber > toBlock) continue;
+      byKey.set(`${log.blockNumber}|${log.index}`, log);
+    }
+  }
+
+  return [...byKey.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+export function writeCacheSegment(pool: string, fromBlock: number, toBlock: number, logs: CachedSwapLog[]): void {
+  const dir = poolDir(pool);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const content: SegmentFile = {
+    pool: pool.toLowerCase(),
+    fromBlock,
+    toBlock,
+    fetchedAt: new Date().toISOString(),
+    logs,
+  };
+
+  // Write to a temp file first so an interrupted run never leaves a truncated segment
+  const filePath = path.join(dir, `${fromBlock}_${toBlock}.json`);
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(content), "utf-8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Delete segments overlapping the block range (all segments of the pool if no range given)
+export function invalidateCacheSegments(pool?: string, fromBlock?: number, toBlock?: number): CacheSegment[] {
+  const from = fromBlock ?? 0;
+  const to = toBlock ?? Infinity;
+
+  const removed = listCacheSegments(pool).filter(s => s.toBlock >= from && s.fromBlock <= to);
+  for (const segment of removed) {
+    fs.unlinkSync(segment.filePath);
+  }
+
+  return removed;
+}
+
+// Delete segments fully covered by another segment, plus segments older than maxAgeDays if given
+export function pruneCacheSegments(maxAgeDays?: number): CacheSegment[] {
+  const cutoff = maxAgeDays !== undefined ? Date.now() - maxAgeDays * 86400 * 1000 : -Infinity;
+  const expired = listCacheSegments().filter(s => s.modifiedAt.getTime() < cutoff);
+  const remaining = listCacheSegments().filter(s => s.modifiedAt.getTime() >= cutoff);
+
+  const redundant = remaining.filter((segment, i) =>
+    remaining.some((other, j) =>
+      j !== i &&
+      other.pool === segment.pool &&
+      other.fromBlock <= segment.fromBlock &&
+      other.toBlock >= segment.toBlock &&
+      // For identical spans keep the first one
+      (other.fromBlock !== segment.fromBlock || other.toBlock !== segment.toBlock || j < i)
+    )
+  );
+
+  const removed = [...expired, ...redundant];
+
+  for (const segment of removed) {
+    fs.unlinkSync(segment.filePath);
+  }
+
+  return removed;
+}
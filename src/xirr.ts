@@ -0,0 +1,168 @@
+/**
+ * XIRR with convergence diagnostics
+ * Solves NPV(r) = Σ amount × (1 + r)^(-years) = 0 for the annualized rate r. The NPV is written
+ * in y = ln(1 + r) × (span of the cash flows in years), so a position lasting minutes has its
+ * root at a moderate y even when r is astronomically large, and is evaluated with the largest
+ * exponent factored out so it never overflows. Roots are bracketed by scanning y and refined
+ * with Brent's method; there is no cap on the rate. Every result carries a status explaining a
+ * missing or ambiguous rate.
+ */
+
+export interface CashFlow {
+  date: Date;
+  amount: number; // negative for outflows (deposits), positive for inflows (withdrawals, fees, rewards)
+}
+
+export type XirrStatus =
+  | "converged"
+  | "multiple_roots" // Several rates zero the NPV; the one closest to 0% is reported
+  | "no_sign_change" // Only inflows or only outflows, or the NPV keeps its sign for every rate
+  | "too_few_cash_flows"
+  | "zero_duration" // All cash flows at the same time, so no annualized rate exists
+  | "not_converged"
+  | "rate_overflow"; // Root found, but the annualized rate exceeds the number range
+
+export interface XirrResult {
+  rate: number | null; // Annualized rate as a percentage
+  status: XirrStatus;
+  iterations: number;
+}
+
+// Scan of y = ln(1 + r) × span: e^±60 covers any realistic ratio of returned to deployed capital
+const SCAN_LIMIT = 60;
+const SCAN_STEPS = 480;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-12;
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// NPV at y scaled by a positive factor: same sign and roots, no overflow for any y
+function scaledNpv(amounts: number[], fractions: number[], y: number): number {
+  const exponents = fractions.map(f => -y * f);
+  const max = exponents.reduce((m, e) => Math.max(m, e), -Infinity);
+  return amounts.reduce((sum, amount, i) => sum + amount * Math.exp(exponents[i] - max), 0);
+}
+
+// Brent's method on a bracket [a, b] with f(a) and f(b) of opposite signs
+function brent(f: (y: number) => number, a: number, b: number): { root: number; iterations: number } | null {
+  let fa = f(a);
+  let fb = f(b);
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    if (Math.sign(fb) === Math.sign(fc)) {
+      c = a;
+      fc = fa;
+      d = e = b - a;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b; b = c; c = a;
+      fa = fb; fb = fc; fc = fa;
+    }
+
+    const tol = 2 * Number.EPSILON * Math.abs(b) + TOLERANCE;
+    const m = (c - b) / 2;
+    if (Math.abs(m) <= tol || fb === 0) {
+      return { root: b, iterations: i };
+    }
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // Secant or inverse quadratic interpolation
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * m * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * m * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q; else p = -p;
+
+      if (2 * p < Math.min(3 * m * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = m;
+        e = m;
+      }
+    } else {
+      // Bisection
+      d = m;
+      e = m;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol ? d : (m > 0 ? tol : -tol);
+    fb = f(b);
+  }
+
+  return null;
+}
+
+export function solveXirr(cashFlows: CashFlow[]): XirrResult {
+  const flows = cashFlows.filter(cf => cf.amount !== 0);
+  if (flows.length < 2) {
+    return { rate: null, status: "too_few_cash_flows", iterations: 0 };
+  }
+  if (!flows.some(cf => cf.amount < 0) || !flows.some(cf => cf.amount > 0)) {
+    return { rate: null, status: "no_sign_change", iterations: 0 };
+  }
+
+  const sorted = [...flows].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const start = sorted[0].date.getTime();
+  const spanYears = (sorted[sorted.length - 1].date.getTime() - start) / MS_PER_YEAR;
+  if (spanYears <= 0) {
+    return { rate: null, status: "zero_duration", iterations: 0 };
+  }
+
+  const amounts = sorted.map(cf => cf.amount);
+  const fractions = sorted.map(cf => (cf.date.getTime() - start) / MS_PER_YEAR / spanYears);
+  const f = (y: number) => scaledNpv(amounts, fractions, y);
+
+  // Bracket every sign change of the NPV over the scan
+  const brackets: Array<[number, number]> = [];
+  let prevY = -SCAN_LIMIT;
+  let prevValue = f(prevY);
+  for (let step = 1; step <= SCAN_STEPS; step++) {
+    const y = -SCAN_LIMIT + (2 * SCAN_LIMIT * step) / SCAN_STEPS;
+    const value = f(y);
+    if (value === 0) {
+      brackets.push([y, y]);
+    } else if (prevValue !== 0 && Math.sign(value) !== Math.sign(prevValue)) {
+      brackets.push([prevY, y]);
+    }
+    prevY = y;
+    prevValue = value;
+  }
+
+  if (brackets.length === 0) {
+    return { rate: null, status: "no_sign_change", iterations: 0 };
+  }
+
+  // With several roots, report the rate closest to 0%
+  const [a, b] = brackets.reduce((best, bracket) =>
+    Math.abs(bracket[0] + bracket[1]) < Math.abs(best[0] + best[1]) ? bracket : best);
+  const solved = a === b ? { root: a, iterations: 0 } : brent(f, a, b);
+  if (!solved) {
+    return { rate: null, status: "not_converged", iterations: MAX_ITERATIONS };
+  }
+
+  const rate = Math.expm1(solved.root / spanYears) * 100;
+  if (!isFinite(rate)) {
+    return { rate: null, status: "rate_overflow", iterations: solved.iterations };
+  }
+
+  return {
+    rate,
+    status: brackets.length > 1 ? "multiple_roots" : "converged",
+    iterations: solved.iterations,
+  };
+}